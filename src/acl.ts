@@ -0,0 +1,119 @@
+import * as net from 'net';
+import { IACLConfig } from './config';
+import * as ipv6 from './ipv6';
+import { Address } from './utils';
+
+type Family = 'ipv4' | 'ipv6';
+
+export class ACLDeniedError extends Error {
+  public address: Address;
+
+  constructor(reason: string, address: Address) {
+    super(reason);
+    this.name = 'ACLDeniedError';
+    this.address = address;
+  }
+}
+
+// ranges no client should reach through the server unless allow_private is set
+const defaultDenied: [string, string, Family][] = [
+  ['this network', '0.0.0.0/8', 'ipv4'],
+  ['private', '10.0.0.0/8', 'ipv4'],
+  ['shared', '100.64.0.0/10', 'ipv4'],
+  ['loopback', '127.0.0.0/8', 'ipv4'],
+  ['link-local', '169.254.0.0/16', 'ipv4'],
+  ['private', '172.16.0.0/12', 'ipv4'],
+  ['private', '192.168.0.0/16', 'ipv4'],
+  ['multicast', '224.0.0.0/4', 'ipv4'],
+  ['reserved', '240.0.0.0/4', 'ipv4'],
+  ['unspecified', '::/128', 'ipv6'],
+  ['loopback', '::1/128', 'ipv6'],
+  ['private', 'fc00::/7', 'ipv6'],
+  ['link-local', 'fe80::/10', 'ipv6'],
+  ['multicast', 'ff00::/8', 'ipv6'],
+];
+
+function familyOf(ip: string): Family {
+  return net.isIPv6(ip) ? 'ipv6' : 'ipv4';
+}
+
+function blockListOf(cidrs: string[]) {
+  const blockList = new net.BlockList();
+  for (const cidr of cidrs) {
+    const [network, prefix] = cidr.split('/');
+    const family = familyOf(network);
+    blockList.addSubnet(network, Number(prefix ?? (family === 'ipv4' ? 32 : 128)), family);
+  }
+  return blockList;
+}
+
+// ::ffff:127.0.0.1 must not get around the ipv4 ranges
+function unmapIPv4(ip: string) {
+  if (!net.isIPv6(ip)) return ip;
+  const bytes = ipv6.toBufArr(ip);
+  if (bytes.slice(0, 10).some((byte) => byte !== 0) || bytes[10] !== 0xff || bytes[11] !== 0xff) return ip;
+  return bytes.slice(12).join('.');
+}
+
+// 25 or "6881-6889"
+function portRanges(specs: (number | string)[]) {
+  return specs.map((spec) => {
+    const [from, to] = String(spec).split('-').map(Number);
+    return [from, to ?? from];
+  });
+}
+
+// example.com also matches its subdomains, /regex/ is a regular expression
+function domainMatcher(pattern: string) {
+  if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+    const regex = new RegExp(pattern.slice(1, -1), 'i');
+    return (domain: string) => regex.test(domain);
+  }
+  const suffix = pattern.toLowerCase();
+  return (domain: string) => domain === suffix || domain.endsWith('.' + suffix);
+}
+
+// where clients may make the server connect to, checked after dns resolution
+export class OutboundACL {
+  private allowPrivate: boolean;
+  private allowed: net.BlockList;
+  private denied: net.BlockList;
+  private defaultDenied: { name: string; blockList: net.BlockList }[];
+  private allowedPorts: number[][];
+  private deniedPorts: number[][];
+  private deniedDomains: ((domain: string) => boolean)[];
+
+  constructor(config: IACLConfig = {}) {
+    this.allowPrivate = !!config.allow_private;
+    this.allowed = blockListOf(config.allow_cidrs || []);
+    this.denied = blockListOf(config.deny_cidrs || []);
+    this.defaultDenied = defaultDenied.map(([name, cidr]) => ({ name, blockList: blockListOf([cidr]) }));
+    this.allowedPorts = config.allow_ports ? portRanges(config.allow_ports) : null;
+    this.deniedPorts = portRanges(config.deny_ports || []);
+    this.deniedDomains = (config.deny_domains || []).map(domainMatcher);
+  }
+
+  // the reason the address is denied, or null if allowed
+  check(address: Address): string {
+    const { port } = address;
+    const domain = address.domain && !net.isIP(address.domain) ? address.domain.toLowerCase() : null;
+    if (domain && this.deniedDomains.some((match) => match(domain))) return `domain ${domain} denied`;
+
+    const inRange = ([from, to]: number[]) => port >= from && port <= to;
+    if (this.allowedPorts && !this.allowedPorts.some(inRange)) return `port ${port} not allowed`;
+    if (this.deniedPorts.some(inRange)) return `port ${port} denied`;
+
+    // not resolved, nothing to check yet
+    if (!net.isIP(address.host)) return null;
+    const ip = unmapIPv4(address.host);
+    const family = familyOf(ip);
+
+    if (this.allowed.check(ip, family)) return null;
+    if (this.denied.check(ip, family)) return `${ip} denied`;
+    if (!this.allowPrivate) {
+      const range = this.defaultDenied.find(({ blockList }) => blockList.check(ip, family));
+      if (range) return `${ip} is a ${range.name} address`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,111 @@
+import * as crypto from 'crypto';
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { cipherInfoMap, Method } from './config';
+import { Decryptor, Encryptor } from './encrypt';
+
+// throughput of the tcp stream ciphers in this process, no network involved:
+// node dist/benchmark.js [-m aes-128-gcm,chacha20-poly1305] [-s 1024,16384] [-n 64]
+
+interface IBenchmarkArgs {
+  methods: Method[];
+  // bytes written to the encryptor at once
+  sizes: number[];
+  // MiB through each method and size
+  mib: number;
+}
+
+const usage = [
+  'usage: benchmark [options]',
+  '',
+  '  -m, --methods <a,b>   methods to compare, default all',
+  '  -s, --sizes <a,b>     bytes written at once, default 1024,16384,65536',
+  '  -n, --mib <n>         MiB through each method and size, default 64',
+].join('\n');
+
+function fail(message: string): never {
+  console.error(`benchmark: ${message}`);
+  process.exit(1);
+}
+
+function parseList(flag: string, value: string) {
+  if (!value) fail(`missing value for ${flag}`);
+  return value.split(',').filter(Boolean);
+}
+
+function parseArgs(argv: string[]): IBenchmarkArgs {
+  const args: IBenchmarkArgs = { methods: Object.keys(cipherInfoMap) as Method[], sizes: [1024, 16384, 65536], mib: 64 };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === '-h' || flag === '--help') {
+      console.log(usage);
+      process.exit(0);
+    } else if (flag === '-m' || flag === '--methods') {
+      args.methods = parseList(flag, argv[++i]) as Method[];
+      const unknown = args.methods.find((method) => !(method in cipherInfoMap));
+      if (unknown) fail(`unknown method ${unknown}, expected one of ${Object.keys(cipherInfoMap).join(', ')}`);
+    } else if (flag === '-s' || flag === '--sizes') {
+      args.sizes = parseList(flag, argv[++i]).map(Number);
+      if (args.sizes.some((size) => !Number.isInteger(size) || size <= 0)) fail('sizes must be positive integers');
+    } else if (flag === '-n' || flag === '--mib') {
+      args.mib = Number(argv[++i]);
+      if (!(args.mib > 0)) fail('mib must be a positive number');
+    } else {
+      fail(`unknown option ${flag}, see --help`);
+    }
+  }
+
+  return args;
+}
+
+function* repeat(chunk: Buffer, count: number) {
+  for (let i = 0; i < count; i++) yield chunk;
+}
+
+// MiB/s of plain bytes piped through transform, its output is kept in out
+async function measure(transform: Transform, chunks: Iterable<Buffer>, bytes: number, out: Buffer[]) {
+  const sink = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      out.push(chunk);
+      callback();
+    },
+  });
+  const start = process.hrtime.bigint();
+  await pipeline(Readable.from(chunks), transform, sink);
+  const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+  return bytes / (1 << 20) / seconds;
+}
+
+async function run(method: Method, size: number, mib: number) {
+  const { keyLen, saltLen, sip022 } = cipherInfoMap[method];
+  const password = sip022 ? crypto.randomBytes(keyLen).toString('base64') : 'benchmark';
+  // sip022 response streams, they carry no target address
+  const requestSalt = sip022 ? crypto.randomBytes(saltLen) : undefined;
+  const count = Math.ceil((mib * (1 << 20)) / size);
+  const bytes = count * size;
+
+  const encrypted: Buffer[] = [];
+  const encrypt = await measure(new Encryptor(method, password, { requestSalt }), repeat(crypto.randomBytes(size), count), bytes, encrypted);
+  const decrypted: Buffer[] = [];
+  const decrypt = await measure(new Decryptor(method, password, { requestSalt }), encrypted, bytes, decrypted);
+  if (decrypted.reduce((sum, chunk) => sum + chunk.length, 0) !== bytes) throw new Error(`${method} decrypted a different length`);
+  return { encrypt, decrypt };
+}
+
+async function main() {
+  const { methods, sizes, mib } = parseArgs(process.argv.slice(2));
+  const width = Math.max(...methods.map((method) => method.length)) + 2;
+  console.log(`${'method'.padEnd(width)}${'chunk'.padStart(8)}${'encrypt MiB/s'.padStart(16)}${'decrypt MiB/s'.padStart(16)}`);
+  for (const method of methods) {
+    for (const size of sizes) {
+      const { encrypt, decrypt } = await run(method, size, mib);
+      console.log(`${method.padEnd(width)}${String(size).padStart(8)}${encrypt.toFixed(1).padStart(16)}${decrypt.toFixed(1).padStart(16)}`);
+    }
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
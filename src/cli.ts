@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigError, formatURI, IConfig, parseURI, Role, validateConfig } from './config';
+
+interface IOption {
+  key: keyof IConfig;
+  flags: string[];
+  env: string;
+  arg: string;
+  help: string;
+  number?: boolean;
+}
+
+const options: IOption[] = [
+  { key: 'server', flags: ['-s', '--server'], env: 'SS_SERVER', arg: '<host>', help: 'server address' },
+  { key: 'server_port', flags: ['-p', '--server-port'], env: 'SS_SERVER_PORT', arg: '<port>', help: 'server port', number: true },
+  { key: 'password', flags: ['-k', '--password'], env: 'SS_PASSWORD', arg: '<password>', help: 'password, a base64 key for 2022 methods' },
+  { key: 'method', flags: ['-m', '--method'], env: 'SS_METHOD', arg: '<method>', help: 'encryption method, default aes-256-gcm' },
+  { key: 'local_address', flags: ['-b', '--local-address'], env: 'SS_LOCAL_ADDRESS', arg: '<host>', help: 'local address, default 127.0.0.1' },
+  { key: 'local_port', flags: ['-l', '--local-port'], env: 'SS_LOCAL_PORT', arg: '<port>', help: 'local socks5 port, default 1080', number: true },
+  { key: 'local_http_port', flags: ['--local-http-port'], env: 'SS_LOCAL_HTTP_PORT', arg: '<port>', help: 'local http port, default 1090', number: true },
+  { key: 'timeout', flags: ['-t', '--timeout'], env: 'SS_TIMEOUT', arg: '<seconds>', help: 'idle timeout, default 600', number: true },
+  { key: 'tunnel', flags: ['--tunnel'], env: 'SS_TUNNEL', arg: '<tcp|ws|wss>', help: 'tunnel to the server, default tcp' },
+  { key: 'plugin', flags: ['--plugin'], env: 'SS_PLUGIN', arg: '<name>', help: 'SIP003 plugin' },
+  { key: 'plugin_opts', flags: ['--plugin-opts'], env: 'SS_PLUGIN_OPTS', arg: '<opts>', help: 'SIP003 plugin options' },
+  { key: 'manager_address', flags: ['--manager-address'], env: 'SS_MANAGER_ADDRESS', arg: '<address>', help: 'ss-manager only, host:port or unix socket path' },
+];
+
+const defaults: Partial<IConfig> = {
+  local_address: '127.0.0.1',
+  local_port: 1080,
+  local_http_port: 1090,
+  method: 'aes-256-gcm',
+  timeout: 600,
+  tunnel: 'tcp',
+};
+
+// used when neither -c nor SS_CONFIG is given and it exists
+const defaultConfigFile = path.join(__dirname, '../config.json');
+
+interface IArgs {
+  configFile?: string;
+  uri?: string;
+  printURI: boolean;
+  help: boolean;
+  values: Partial<Record<keyof IConfig, any>>;
+}
+
+// invalid numbers are kept as strings so that validation reports what was given
+function toValue(option: IOption, raw: string) {
+  if (!option.number) return raw;
+  const value = Number(raw);
+  return raw.trim() && !Number.isNaN(value) ? value : raw;
+}
+
+function parseArgs(argv: string[]): IArgs {
+  const args: IArgs = { printURI: false, help: false, values: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    // --flag=value
+    const eqIndex = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const flag = eqIndex === -1 ? arg : arg.slice(0, eqIndex);
+    const value = () => {
+      if (eqIndex > -1) return arg.slice(eqIndex + 1);
+      if (i + 1 >= argv.length) throw new ConfigError(`missing value for ${flag}`);
+      return argv[++i];
+    };
+
+    if (flag === '-h' || flag === '--help') {
+      args.help = true;
+    } else if (flag === '--print-uri') {
+      args.printURI = true;
+    } else if (flag === '-c' || flag === '--config') {
+      args.configFile = value();
+    } else if (flag === '--uri') {
+      args.uri = value();
+    } else if (arg.startsWith('ss://')) {
+      args.uri = arg;
+    } else {
+      const option = options.find((option) => option.flags.includes(flag));
+      if (!option) throw new ConfigError(`unknown option ${arg}, see --help`);
+      args.values[option.key] = toValue(option, value());
+    }
+  }
+
+  return args;
+}
+
+function readConfigFile(file: string): IConfig {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw new ConfigError(`cannot read config file ${file}: ${err.message}`);
+  }
+}
+
+// later ones win: defaults, config file, ss:// uri, environment variables, flags
+function buildConfig(args: IArgs, env: NodeJS.ProcessEnv): IConfig {
+  const file = args.configFile || env.SS_CONFIG || (fs.existsSync(defaultConfigFile) ? defaultConfigFile : null);
+  const config: any = { ...defaults, ...(file ? readConfigFile(file) : {}) };
+
+  const uri = args.uri || env.SS_URI;
+  if (uri) {
+    const server = parseURI(uri);
+    for (const key of ['server', 'server_port', 'method', 'password', 'plugin', 'plugin_opts'] as const) {
+      if (server[key] !== undefined) config[key] = server[key];
+    }
+  }
+
+  for (const option of options) {
+    if (env[option.env] !== undefined) config[option.key] = toValue(option, env[option.env]);
+  }
+
+  return { ...config, ...args.values };
+}
+
+// links to give to clients of this config
+function shareURIs(config: IConfig, role: Role) {
+  if (role === 'local' && config.servers?.length) {
+    return config.servers.map((server) => formatURI(server));
+  }
+
+  if (!config.server) throw new ConfigError('--print-uri needs the address clients connect to, set server or -s');
+  const { server, server_port, method, plugin, plugin_opts } = config;
+
+  if (role === 'manager') {
+    return Object.entries(config.port_password || {}).map(([port, password]) => formatURI({ server, server_port: Number(port), method, password, plugin, plugin_opts }));
+  }
+  if (role === 'server' && config.users?.length) {
+    return config.users.map((user) => formatURI({ name: user.name, server, server_port, method: user.method || method, password: user.password, plugin, plugin_opts }));
+  }
+  return [formatURI(config)];
+}
+
+function usage(program: string) {
+  const lines = [
+    ['-c, --config <file>', 'SS_CONFIG', 'json config file, default config.json if it exists'],
+    ['--uri <ss://...>', 'SS_URI', 'SIP002 uri, may also be given without --uri'],
+    ...options.map((option) => [`${option.flags.join(', ')} ${option.arg}`, option.env, option.help]),
+    ['--print-uri', '', 'print the ss:// uri of the config and exit'],
+    ['-h, --help', '', 'print this help and exit'],
+  ];
+  return [
+    `usage: ${program} [options] [ss://...]`,
+    '',
+    ...lines.map(([flags, env, help]) => `  ${flags.padEnd(32)}${env.padEnd(20)}${help}`),
+    '',
+    'flags win over environment variables, which win over the uri and the config file',
+  ].join('\n');
+}
+
+// config of the program from argv and the environment, throws ConfigError,
+// e.g. to reload it while running
+export function readConfig(role: Role, argv = process.argv.slice(2), env = process.env): IConfig {
+  const config = buildConfig(parseArgs(argv), env);
+  validateConfig(config, role);
+  return config;
+}
+
+// like readConfig but prints the error and exits when it is invalid
+export function loadConfig(role: Role, argv = process.argv.slice(2), env = process.env): IConfig {
+  const program = `ss-${role}`;
+  try {
+    const args = parseArgs(argv);
+    if (args.help) {
+      console.log(usage(program));
+      process.exit(0);
+    }
+
+    const config = buildConfig(args, env);
+    validateConfig(config, role);
+
+    if (args.printURI) {
+      for (const uri of shareURIs(config, role)) console.log(uri);
+      process.exit(0);
+    }
+    return config;
+  } catch (err) {
+    if (!(err instanceof ConfigError)) throw err;
+    console.error(`${program}: ${err.message}`);
+    process.exit(1);
+  }
+}
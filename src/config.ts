@@ -1,13 +1,136 @@
+import * as net from 'net';
+import { URL } from 'url';
+import { IRotateOptions } from './log-file';
+import { LogFormat, LogLevel } from './logger';
+
 // nonce size: 12, tag size: 16
+// sip022: shadowsocks 2022 edition, password is a base64 encoded key of keyLen bytes
 export const cipherInfoMap = {
-  'chacha20-poly1305': { keyLen: 32, saltLen: 32 },
-  'aes-256-gcm': { keyLen: 32, saltLen: 32 },
-  'aes-192-gcm': { keyLen: 24, saltLen: 24 },
-  'aes-128-gcm': { keyLen: 16, saltLen: 16 },
+  'chacha20-poly1305': { cipher: 'chacha20-poly1305', keyLen: 32, saltLen: 32, sip022: false },
+  'aes-256-gcm': { cipher: 'aes-256-gcm', keyLen: 32, saltLen: 32, sip022: false },
+  'aes-192-gcm': { cipher: 'aes-192-gcm', keyLen: 24, saltLen: 24, sip022: false },
+  'aes-128-gcm': { cipher: 'aes-128-gcm', keyLen: 16, saltLen: 16, sip022: false },
+  '2022-blake3-aes-128-gcm': { cipher: 'aes-128-gcm', keyLen: 16, saltLen: 16, sip022: true },
+  '2022-blake3-aes-256-gcm': { cipher: 'aes-256-gcm', keyLen: 32, saltLen: 32, sip022: true },
+  '2022-blake3-chacha20-poly1305': { cipher: 'chacha20-poly1305', keyLen: 32, saltLen: 32, sip022: true },
 };
 
 export type Method = keyof typeof cipherInfoMap;
 
+// bytes per second in each direction, 0 or unset for unlimited
+export interface IRateLimit {
+  upload?: number;
+  download?: number;
+}
+
+export interface ILocalUser {
+  username: string;
+  password: string;
+  rate_limit?: IRateLimit;
+  max_connections?: number;
+}
+
+export interface IServerUser {
+  name: string;
+  password: string;
+  // defaults to the top level method
+  method?: Method;
+  // shared by all connections of the user
+  rate_limit?: IRateLimit;
+  // open at once on each listener
+  max_connections?: number;
+}
+
+export type TunnelType = 'tcp' | 'ws' | 'wss';
+
+export interface IServerConfig {
+  // shown in logs, defaults to server:server_port
+  name?: string;
+  server: string;
+  server_port: number;
+  password: string;
+  method: Method;
+  tunnel: TunnelType;
+  plugin?: string;
+  plugin_opts?: string;
+  // ws and wss only, streams share a few long-lived websockets instead of one each
+  mux?: boolean;
+  mux_connections?: number;
+  // ws and wss only, path of the upgrade request and shared secret sent with it
+  ws_path?: string;
+  ws_token?: string;
+}
+
+export type BalanceStrategy = 'failover' | 'round-robin' | 'least-latency' | 'consistent-hash';
+
+// where the server may connect to for clients, see acl.ts
+export interface IACLConfig {
+  // reach loopback, private, link-local, multicast and reserved ranges, denied by default
+  allow_private?: boolean;
+  // allowed even in a denied range, e.g. a service on the server's own network
+  allow_cidrs?: string[];
+  deny_cidrs?: string[];
+  // when set only these ports, e.g. [80, 443, "8000-9000"]
+  allow_ports?: (number | string)[];
+  deny_ports?: (number | string)[];
+  // example.com also matches its subdomains, /regex/ is a regular expression
+  deny_domains?: string[];
+}
+
+export interface IDNSConfig {
+  // udp (8.8.8.8 or udp://8.8.8.8:53), tcp://1.1.1.1:53 or dns over https (https://dns.google/dns-query),
+  // asked in order; the system resolver when empty
+  servers?: string[];
+  // name or *.domain to one or several addresses, answered without asking
+  hosts?: Record<string, string | string[]>;
+  // seconds each server gets to answer, default 5
+  timeout?: number;
+  // seconds names that do not exist are cached, default 30
+  negative_ttl?: number;
+}
+
+// ss-local dns listener, names go through the server unless they are domestic
+export interface ILocalDNSConfig {
+  // udp and tcp on local_address
+  port: number;
+  // host:port asked over tcp through the server, default 8.8.8.8:53
+  remote_server?: string;
+  // asked directly for domestic names, like dns.servers; the servers of the system by default
+  domestic_servers?: string[];
+  // domain lists, a name is routed by its most specific listed domain
+  domestic_list?: string;
+  foreign_list?: string;
+  // names on neither list, foreign by default
+  unlisted?: DNSRoute;
+}
+
+export type DNSRoute = 'domestic' | 'foreign';
+
+export type TunnelProtocol = 'tcp' | 'udp' | 'tcp_and_udp';
+
+// ss-tunnel, local_port forwarded to target_host:target_port through the server
+export interface ITunnelConfig {
+  local_port: number;
+  target_host: string;
+  target_port: number;
+  // tcp by default
+  protocol?: TunnelProtocol;
+}
+
+// which addresses of a domain are connected to, and in which order
+export type AddressFamily = 'ipv4_first' | 'ipv6_first' | 'ipv4_only' | 'ipv6_only';
+
+// what the tcp server does with a client failing the handshake
+export type AuthFailureAction = 'close' | 'drain' | 'fallback';
+
+export interface IHealthCheckConfig {
+  // fetched through each server, any response counts as healthy
+  url?: string;
+  // seconds
+  interval?: number;
+  timeout?: number;
+}
+
 export interface IConfig {
   server: string;
   server_port: number;
@@ -17,8 +140,375 @@ export interface IConfig {
   method: Method;
   timeout: number;
   local_http_port: number;
-  tunnel: 'tcp' | 'ws' | 'wss';
+  tunnel: TunnelType;
+  // local only, socks5, socks4 and http on one more port, told apart by their first byte
+  local_mixed_port?: number;
+  // local only, require username/password on the socks5 and http listeners
+  local_users?: ILocalUser[];
+  // local only, ports forwarded to fixed destinations without socks5, like ss-tunnel
+  tunnels?: ITunnelConfig[];
+  // local only, answer dns queries on a port of its own, resolving through the server
+  local_dns?: ILocalDNSConfig;
+  // local only, route destinations to direct, proxy or reject, see rules.ts
+  rules_file?: string;
+  // local only, domains proxied by /proxy.pac on local_http_port, from a domain list or gfwlist file
+  pac_file?: string;
+  pac_domains?: string[];
+  // local only, several servers instead of server/server_port/password/method/tunnel
+  servers?: IServerConfig[];
+  balance?: BalanceStrategy;
+  health_check?: IHealthCheckConfig;
+  // local only, multiplex streams over mux_connections websockets, default 4
+  mux?: boolean;
+  mux_connections?: number;
+  // ws and wss, upgrades are only accepted on ws_path (default /) carrying ws_token when set
+  ws_path?: string;
+  ws_token?: string;
+  // websocket server only, serve wss directly with this certificate and key (pem files)
+  tls_cert?: string;
+  tls_key?: string;
+  // websocket server only, what other http requests get: a directory of static files
+  // or a http(s):// site to reverse proxy, a bare 404 by default
+  ws_fallback?: string;
+  // server only, how many recent salts are remembered to reject replays
+  salt_filter_capacity?: number;
+  // server only, several users with their own keys on server_port
+  users?: IServerUser[];
+  // tcp server only, on a failed handshake close at once (default), read and discard until the
+  // client closes or a random timeout, or forward everything to auth_failure_fallback (host:port)
+  auth_failure?: AuthFailureAction;
+  auth_failure_fallback?: string;
+  // server only, outbound policy checked for every destination
+  acl?: IACLConfig;
+  // servers and direct connections of ss-local, how destinations by domain are resolved,
+  // connected to over ipv4 first by default
+  dns?: IDNSConfig;
+  address_family?: AddressFamily;
+  // bandwidth shared by all connections and the one of each connection, tcp only,
+  // reloaded on SIGHUP
+  rate_limit?: IRateLimit;
+  connection_rate_limit?: IRateLimit;
+  // open at once on each listener, more are refused with a socks error, http 503 or a close
+  max_connections?: number;
+  // seconds open connections get to finish after SIGTERM or SIGINT, default 30
+  shutdown_timeout?: number;
+  // host:port serving /metrics in the prometheus text format, off by default
+  metrics_address?: string;
+  // debug by default; json writes one object per line with fields such as conn_id, user and dest
+  log_level?: LogLevel;
+  log_format?: LogFormat;
+  // written to instead of stdout, rotated by size or time as log_rotate says, like access_log
+  log_file?: string;
+  log_rotate?: IRotateOptions;
+  // one record per finished connection, off by default
+  access_log?: string;
+  // ss-manager only, ports started at launch and where commands are accepted,
+  // host:port for udp or a path for a unix socket
+  port_password?: Record<string, string>;
+  manager_address?: string;
+  // SIP003 plugin executable and its options, e.g. from the plugin parameter of a ss:// uri,
+  // ss-local connects and ss-server listens through it
+  plugin?: string;
+  plugin_opts?: string;
+}
+
+export type Role = 'local' | 'server' | 'manager';
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
 }
 
-// eslint-disable-next-line @typescript-eslint/no-var-requires
-export const config: IConfig = require('../config.json');
+const tunnels: TunnelType[] = ['tcp', 'ws', 'wss'];
+const logLevels: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const logFormats: LogFormat[] = ['text', 'json'];
+const balanceStrategies: BalanceStrategy[] = ['failover', 'round-robin', 'least-latency', 'consistent-hash'];
+const authFailureActions: AuthFailureAction[] = ['close', 'drain', 'fallback'];
+const addressFamilies: AddressFamily[] = ['ipv4_first', 'ipv6_first', 'ipv4_only', 'ipv6_only'];
+const tunnelProtocols: TunnelProtocol[] = ['tcp', 'udp', 'tcp_and_udp'];
+const dnsRoutes: DNSRoute[] = ['domestic', 'foreign'];
+
+function checkPort(name: string, port: any) {
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new ConfigError(`invalid ${name} ${JSON.stringify(port)}, expected 1-65535`);
+  }
+}
+
+// where is the name of the entry, e.g. "servers[1]", for the error message
+function checkKey(where: string, method: any, password: any) {
+  if (!method) throw new ConfigError(`missing method${where}`);
+  if (!(method in cipherInfoMap)) {
+    throw new ConfigError(`unknown method ${JSON.stringify(method)}${where}, expected one of ${Object.keys(cipherInfoMap).join(', ')}`);
+  }
+  if (!password) throw new ConfigError(`missing password${where}`);
+
+  const { keyLen, sip022 } = cipherInfoMap[method as Method];
+  if (sip022 && Buffer.from(password, 'base64').length !== keyLen) {
+    throw new ConfigError(`password${where} of ${method} must be a base64 encoded ${keyLen} byte key`);
+  }
+}
+
+function checkACL(acl: IACLConfig) {
+  for (const cidr of [...(acl.allow_cidrs || []), ...(acl.deny_cidrs || [])]) {
+    const [network, prefix] = String(cidr).split('/');
+    const family = net.isIP(network);
+    const maxPrefix = family === 6 ? 128 : 32;
+    if (!family || (prefix !== undefined && !(/^\d+$/.test(prefix) && Number(prefix) <= maxPrefix))) {
+      throw new ConfigError(`invalid cidr ${JSON.stringify(cidr)} in acl`);
+    }
+  }
+  for (const port of [...(acl.allow_ports || []), ...(acl.deny_ports || [])]) {
+    if (!/^\d+(-\d+)?$/.test(String(port))) throw new ConfigError(`invalid port ${JSON.stringify(port)} in acl, expected 25 or "6881-6889"`);
+  }
+  for (const pattern of acl.deny_domains || []) {
+    if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+      try {
+        new RegExp(pattern.slice(1, -1));
+      } catch (err) {
+        throw new ConfigError(`invalid domain regex ${pattern} in acl: ${err.message}`);
+      }
+    }
+  }
+}
+
+function checkDNS(dns: IDNSConfig) {
+  for (const server of dns.servers || []) {
+    if (net.isIP(server)) continue;
+    let url: URL;
+    try {
+      url = new URL(server);
+    } catch (err) {
+      throw new ConfigError(`invalid dns server ${JSON.stringify(server)}`);
+    }
+    if (url.protocol === 'https:' || url.protocol === 'http:') continue;
+    if (!['udp:', 'tcp:'].includes(url.protocol) || !net.isIP(url.hostname.replace(/^\[|\]$/g, ''))) {
+      throw new ConfigError(`invalid dns server ${JSON.stringify(server)}, expected an ip, udp://ip:port, tcp://ip:port or an https:// url`);
+    }
+  }
+  for (const [name, value] of Object.entries(dns.hosts || {})) {
+    const addresses = Array.isArray(value) ? value : [value];
+    if (!addresses.length || !addresses.every((address) => net.isIP(address))) {
+      throw new ConfigError(`invalid address of ${name} in dns hosts, expected an ip or a list of them`);
+    }
+  }
+  if (dns.timeout !== undefined && !(dns.timeout > 0)) {
+    throw new ConfigError(`invalid timeout ${JSON.stringify(dns.timeout)} in dns, expected seconds`);
+  }
+  if (dns.negative_ttl !== undefined && !(dns.negative_ttl >= 0)) {
+    throw new ConfigError(`invalid negative_ttl ${JSON.stringify(dns.negative_ttl)} in dns, expected seconds`);
+  }
+}
+
+function checkLocalDNS(localDNS: ILocalDNSConfig) {
+  checkPort('port in local_dns', localDNS.port);
+  if (localDNS.remote_server && !/^.+:\d+$/.test(localDNS.remote_server)) {
+    throw new ConfigError(`invalid remote_server ${JSON.stringify(localDNS.remote_server)} in local_dns, expected host:port`);
+  }
+  // the same formats as the servers of the resolver
+  checkDNS({ servers: localDNS.domestic_servers });
+  if (localDNS.unlisted && !dnsRoutes.includes(localDNS.unlisted)) {
+    throw new ConfigError(`unknown unlisted ${JSON.stringify(localDNS.unlisted)} in local_dns, expected one of ${dnsRoutes.join(', ')}`);
+  }
+}
+
+function checkCount(name: string, count: any) {
+  if (count !== undefined && !(Number.isInteger(count) && count > 0)) {
+    throw new ConfigError(`invalid ${name} ${JSON.stringify(count)}`);
+  }
+}
+
+function checkLogging(config: IConfig) {
+  if (config.log_level && !logLevels.includes(config.log_level)) {
+    throw new ConfigError(`unknown log_level ${JSON.stringify(config.log_level)}, expected one of ${logLevels.join(', ')}`);
+  }
+  if (config.log_format && !logFormats.includes(config.log_format)) {
+    throw new ConfigError(`unknown log_format ${JSON.stringify(config.log_format)}, expected one of ${logFormats.join(', ')}`);
+  }
+  const rotate = config.log_rotate;
+  if (!rotate) return;
+  if (rotate.max_size !== undefined && !(rotate.max_size > 0)) {
+    throw new ConfigError(`invalid max_size ${JSON.stringify(rotate.max_size)} in log_rotate, expected bytes`);
+  }
+  if (rotate.interval && !['hourly', 'daily'].includes(rotate.interval)) {
+    throw new ConfigError(`unknown interval ${JSON.stringify(rotate.interval)} in log_rotate, expected hourly or daily`);
+  }
+  if (rotate.keep !== undefined && !(Number.isInteger(rotate.keep) && rotate.keep >= 0)) {
+    throw new ConfigError(`invalid keep ${JSON.stringify(rotate.keep)} in log_rotate`);
+  }
+}
+
+function checkRateLimit(name: string, limit: IRateLimit) {
+  if (typeof limit !== 'object' || limit === null) throw new ConfigError(`invalid ${name}, expected { upload, download }`);
+  for (const direction of ['upload', 'download'] as const) {
+    const rate = limit[direction];
+    if (rate !== undefined && !(typeof rate === 'number' && rate >= 0)) {
+      throw new ConfigError(`invalid ${direction} ${JSON.stringify(rate)} in ${name}, expected bytes per second`);
+    }
+  }
+}
+
+// throws ConfigError for what the given program cannot run with
+export function validateConfig(config: IConfig, role: Role) {
+  if (config.tunnel && !tunnels.includes(config.tunnel)) {
+    throw new ConfigError(`unknown tunnel ${JSON.stringify(config.tunnel)}, expected one of ${tunnels.join(', ')}`);
+  }
+  if (config.plugin && config.tunnel && config.tunnel !== 'tcp') {
+    throw new ConfigError('plugin replaces the tunnel, it only works with tunnel tcp');
+  }
+  if (config.ws_path && !config.ws_path.startsWith('/')) {
+    throw new ConfigError(`invalid ws_path ${JSON.stringify(config.ws_path)}, expected to start with /`);
+  }
+  if (config.timeout !== undefined && !(config.timeout > 0)) {
+    throw new ConfigError(`invalid timeout ${JSON.stringify(config.timeout)}, expected seconds`);
+  }
+  if (config.metrics_address && !/^.+:\d+$/.test(config.metrics_address)) {
+    throw new ConfigError(`invalid metrics_address ${JSON.stringify(config.metrics_address)}, expected host:port`);
+  }
+  checkLogging(config);
+  checkCount('max_connections', config.max_connections);
+  if (config.dns) checkDNS(config.dns);
+  if (config.address_family && !addressFamilies.includes(config.address_family)) {
+    throw new ConfigError(`unknown address_family ${JSON.stringify(config.address_family)}, expected one of ${addressFamilies.join(', ')}`);
+  }
+  if (config.shutdown_timeout !== undefined && !(config.shutdown_timeout >= 0)) {
+    throw new ConfigError(`invalid shutdown_timeout ${JSON.stringify(config.shutdown_timeout)}, expected seconds`);
+  }
+  if (config.rate_limit) checkRateLimit('rate_limit', config.rate_limit);
+  if (config.connection_rate_limit) checkRateLimit('connection_rate_limit', config.connection_rate_limit);
+  for (const user of [...(config.users || []), ...(config.local_users || [])]) {
+    const name = 'name' in user ? user.name : user.username;
+    if (user.rate_limit) checkRateLimit(`rate_limit of user ${name}`, user.rate_limit);
+    checkCount(`max_connections of user ${name}`, user.max_connections);
+  }
+
+  if (role === 'local') {
+    checkPort('local_port', config.local_port);
+    checkPort('local_http_port', config.local_http_port);
+    if (config.local_mixed_port !== undefined) checkPort('local_mixed_port', config.local_mixed_port);
+    if (config.mux_connections !== undefined && !(Number.isInteger(config.mux_connections) && config.mux_connections > 0)) {
+      throw new ConfigError(`invalid mux_connections ${JSON.stringify(config.mux_connections)}`);
+    }
+    if (config.balance && !balanceStrategies.includes(config.balance)) {
+      throw new ConfigError(`unknown balance ${JSON.stringify(config.balance)}, expected one of ${balanceStrategies.join(', ')}`);
+    }
+
+    (config.tunnels || []).forEach((tunnel, i) => {
+      const where = ` in tunnels[${i}]`;
+      checkPort(`local_port${where}`, tunnel.local_port);
+      if (!tunnel.target_host || Buffer.byteLength(tunnel.target_host) > 255) {
+        throw new ConfigError(`invalid target_host ${JSON.stringify(tunnel.target_host)}${where}`);
+      }
+      checkPort(`target_port${where}`, tunnel.target_port);
+      if (tunnel.protocol && !tunnelProtocols.includes(tunnel.protocol)) {
+        throw new ConfigError(`unknown protocol ${JSON.stringify(tunnel.protocol)}${where}, expected one of ${tunnelProtocols.join(', ')}`);
+      }
+    });
+
+    if (config.local_dns) checkLocalDNS(config.local_dns);
+
+    if (config.servers?.length) {
+      config.servers.forEach((server, i) => {
+        const where = ` in servers[${i}]`;
+        if (!server.server) throw new ConfigError(`missing server${where}`);
+        checkPort(`server_port${where}`, server.server_port);
+        checkKey(where, server.method, server.password);
+        if (server.plugin && server.tunnel && server.tunnel !== 'tcp') {
+          throw new ConfigError(`plugin replaces the tunnel, it only works with tunnel tcp${where}`);
+        }
+      });
+    } else {
+      if (!config.server) throw new ConfigError('missing server');
+      checkPort('server_port', config.server_port);
+      checkKey('', config.method, config.password);
+    }
+  }
+
+  if (role === 'server') {
+    checkPort('server_port', config.server_port);
+    if (!config.tls_cert !== !config.tls_key) throw new ConfigError('tls_cert and tls_key must be set together');
+    if (config.acl) checkACL(config.acl);
+    if (config.auth_failure && !authFailureActions.includes(config.auth_failure)) {
+      throw new ConfigError(`unknown auth_failure ${JSON.stringify(config.auth_failure)}, expected one of ${authFailureActions.join(', ')}`);
+    }
+    if (config.auth_failure === 'fallback' && !/^.+:\d+$/.test(config.auth_failure_fallback || '')) {
+      throw new ConfigError(`invalid auth_failure_fallback ${JSON.stringify(config.auth_failure_fallback)}, expected host:port`);
+    }
+    if (config.users?.length) {
+      config.users.forEach((user, i) => checkKey(` in users[${i}]`, user.method || config.method, user.password));
+    } else {
+      checkKey('', config.method, config.password);
+    }
+  }
+
+  if (role === 'manager') {
+    for (const [port, password] of Object.entries(config.port_password || {})) {
+      checkPort('port in port_password', Number(port));
+      checkKey(` for port ${port}`, config.method, password);
+    }
+  }
+}
+
+// SIP002: ss://base64url(method:password)@host:port/?plugin=name%3Bopts#tag,
+// userinfo of 2022 methods is percent encoded instead of base64
+export function parseURI(uri: string): Partial<IServerConfig> {
+  if (!uri.startsWith('ss://')) throw new ConfigError(`invalid uri ${uri}, expected ss://`);
+
+  let rest = uri.slice('ss://'.length);
+  let name: string;
+  const hashIndex = rest.indexOf('#');
+  if (hashIndex > -1) {
+    name = decodeURIComponent(rest.slice(hashIndex + 1));
+    rest = rest.slice(0, hashIndex);
+  }
+  // legacy form, everything before the tag is base64(method:password@host:port)
+  if (!rest.includes('@')) rest = Buffer.from(rest, 'base64').toString();
+
+  let url: URL;
+  try {
+    url = new URL(`ss://${rest}`);
+  } catch (err) {
+    throw new ConfigError(`invalid uri ${uri}`);
+  }
+
+  let userinfo = decodeURIComponent(url.username);
+  if (url.password) {
+    userinfo += ':' + decodeURIComponent(url.password);
+  } else if (!userinfo.includes(':')) {
+    userinfo = Buffer.from(userinfo, 'base64').toString();
+  }
+  const index = userinfo.indexOf(':');
+  if (index === -1) throw new ConfigError(`invalid uri ${uri}, missing method:password`);
+
+  const result: ReturnType<typeof parseURI> = {
+    server: url.hostname.replace(/^\[|\]$/g, ''),
+    server_port: Number(url.port),
+    method: userinfo.slice(0, index) as Method,
+    password: userinfo.slice(index + 1),
+  };
+  if (name) result.name = name;
+
+  const plugin = url.searchParams.get('plugin');
+  if (plugin) {
+    const pluginIndex = plugin.indexOf(';');
+    result.plugin = pluginIndex === -1 ? plugin : plugin.slice(0, pluginIndex);
+    if (pluginIndex > -1) result.plugin_opts = plugin.slice(pluginIndex + 1);
+  }
+  return result;
+}
+
+export function formatURI(server: Partial<IServerConfig>) {
+  const userinfo = cipherInfoMap[server.method].sip022
+    ? `${encodeURIComponent(server.method)}:${encodeURIComponent(server.password)}`
+    : Buffer.from(`${server.method}:${server.password}`).toString('base64url');
+  const host = server.server.includes(':') ? `[${server.server}]` : server.server;
+
+  let uri = `ss://${userinfo}@${host}:${server.server_port}`;
+  if (server.plugin) {
+    const plugin = server.plugin_opts ? `${server.plugin};${server.plugin_opts}` : server.plugin;
+    uri += `/?plugin=${encodeURIComponent(plugin)}`;
+  }
+  if (server.name) uri += `#${encodeURIComponent(server.name)}`;
+  return uri;
+}
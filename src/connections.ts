@@ -0,0 +1,108 @@
+import { Logger } from './logger';
+
+// sockets, websocket streams and mux streams
+export interface ITrackable {
+  destroy(): void;
+  once(event: 'close', listener: () => void): unknown;
+}
+
+// open connections of a listener: limited by max_connections, overall and per user,
+// and waited for on shutdown
+export class ConnectionTracker {
+  private max: number;
+  private userMax: Record<string, number>;
+  private connections: Set<ITrackable>;
+  private users: Map<string, number>;
+  private onEmpty: (() => void)[];
+
+  constructor(max = 0, userMax: Record<string, number> = {}) {
+    this.max = max;
+    this.userMax = userMax;
+    this.connections = new Set();
+    this.users = new Map();
+    this.onEmpty = [];
+  }
+
+  get size() {
+    return this.connections.size;
+  }
+
+  get full() {
+    return !!this.max && this.connections.size >= this.max;
+  }
+
+  // false if the listener is full, the connection is then not tracked
+  add(conn: ITrackable) {
+    if (this.full) return false;
+    this.connections.add(conn);
+    conn.once('close', () => {
+      this.connections.delete(conn);
+      if (!this.connections.size) this.onEmpty.splice(0).forEach((resolve) => resolve());
+    });
+    return true;
+  }
+
+  // false if the user has max_connections open already
+  addUser(conn: ITrackable, user: string) {
+    const max = this.userMax[user];
+    const count = this.users.get(user) || 0;
+    if (max && count >= max) return false;
+    this.users.set(user, count + 1);
+    conn.once('close', () => {
+      const left = this.users.get(user) - 1;
+      if (left) {
+        this.users.set(user, left);
+      } else {
+        this.users.delete(user);
+      }
+    });
+    return true;
+  }
+
+  // resolves once every connection closed by itself, those still open after timeout ms are destroyed
+  drain(timeout: number): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.connections.size) return resolve();
+      const timer = setTimeout(() => {
+        for (const conn of this.connections) conn.destroy();
+        resolve();
+      }, timeout);
+      this.onEmpty.push(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+}
+
+// max_connections of each user that has one
+export function userLimitsOf(users: { name?: string; username?: string; max_connections?: number }[] = []) {
+  const limits: Record<string, number> = {};
+  for (const user of users) {
+    if (user.max_connections) limits[user.name ?? user.username] = user.max_connections;
+  }
+  return limits;
+}
+
+// SIGTERM or SIGINT stops accepting and gives open connections up to timeout ms
+// before the process exits, a second signal exits at once
+export function handleShutdown(logger: Logger, timeout: number, shutdown: (timeout: number) => Promise<unknown>) {
+  let stopping = false;
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+      if (stopping) {
+        logger.warn('%s again, exiting now', signal);
+        process.exit(1);
+      }
+      stopping = true;
+      logger.info('%s received, closing connections within %d s', signal, timeout / 1000);
+      shutdown(timeout).then(
+        () => process.exit(0),
+        (err) => {
+          logger.error(err);
+          process.exit(1);
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,160 @@
+import * as ipv6 from './ipv6';
+
+// dns messages (RFC 1035), as much as A, AAAA and CNAME lookups need
+
+export const TYPE_A = 1;
+export const TYPE_CNAME = 5;
+export const TYPE_AAAA = 28;
+const CLASS_IN = 1;
+
+export const RCODE_NOERROR = 0;
+export const RCODE_SERVFAIL = 2;
+export const RCODE_NXDOMAIN = 3;
+
+// header flags
+const FLAG_QR = 0x8000;
+const FLAG_TC = 0x0200;
+const FLAG_RD = 0x0100;
+const FLAG_RA = 0x0080;
+
+export interface IQuestion {
+  name: string;
+  type: number;
+}
+
+export interface IAnswer {
+  name: string;
+  type: number;
+  ttl: number;
+  // the address of A and AAAA, the name of CNAME, empty for other types
+  data: string;
+}
+
+export interface IMessage {
+  id: number;
+  response: boolean;
+  truncated: boolean;
+  rcode: number;
+  questions: IQuestion[];
+  answers: IAnswer[];
+}
+
+function encodeName(name: string) {
+  const labels = name.replace(/\.$/, '').split('.').filter(Boolean);
+  const parts: Buffer[] = [];
+  for (const label of labels) {
+    const buf = Buffer.from(label);
+    if (buf.length > 63) throw new Error(`dns label too long: ${label}`);
+    parts.push(Buffer.from([buf.length]), buf);
+  }
+  parts.push(Buffer.from([0]));
+  return Buffer.concat(parts);
+}
+
+// name at offset, following compression pointers; returns it with the offset after it
+function decodeName(buf: Buffer, offset: number): [string, number] {
+  const labels: string[] = [];
+  let end = -1;
+  // a pointer loop would never end
+  for (let jumps = 0; jumps < 128; jumps++) {
+    if (offset >= buf.length) throw new Error('invalid dns name');
+    const len = buf[offset];
+    if (len === 0) {
+      return [labels.join('.'), end === -1 ? offset + 1 : end];
+    }
+    if ((len & 0xc0) === 0xc0) {
+      if (end === -1) end = offset + 2;
+      offset = buf.readUInt16BE(offset) & 0x3fff;
+      continue;
+    }
+    labels.push(buf.toString('ascii', offset + 1, offset + 1 + len));
+    offset += 1 + len;
+  }
+  throw new Error('invalid dns name');
+}
+
+function encodeTypeAndClass(type: number) {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt16BE(type, 0);
+  buf.writeUInt16BE(CLASS_IN, 2);
+  return buf;
+}
+
+// a recursive query for name
+export function encodeQuery(id: number, name: string, type: number) {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(id, 0);
+  header.writeUInt16BE(FLAG_RD, 2);
+  header.writeUInt16BE(1, 4);
+  return Buffer.concat([header, encodeName(name), encodeTypeAndClass(type)]);
+}
+
+function encodeData(type: number, data: string) {
+  if (type === TYPE_A) return Buffer.from(data.split('.').map(Number));
+  if (type === TYPE_AAAA) return Buffer.from(ipv6.toBufArr(data));
+  return encodeName(data);
+}
+
+// the answer to a query for question, records of A, AAAA and CNAME only, names are not compressed
+export function encodeResponse(id: number, question: IQuestion, rcode: number, answers: IAnswer[]) {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(id, 0);
+  header.writeUInt16BE(FLAG_QR | FLAG_RD | FLAG_RA | rcode, 2);
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(answers.length, 6);
+
+  const parts = [header, encodeName(question.name), encodeTypeAndClass(question.type)];
+  for (const answer of answers) {
+    const data = encodeData(answer.type, answer.data);
+    const fields = Buffer.alloc(6);
+    fields.writeUInt32BE(answer.ttl, 0);
+    fields.writeUInt16BE(data.length, 4);
+    parts.push(encodeName(answer.name), encodeTypeAndClass(answer.type), fields, data);
+  }
+  return Buffer.concat(parts);
+}
+
+function decodeData(buf: Buffer, type: number, offset: number, length: number) {
+  if (type === TYPE_A && length === 4) return `${buf[offset]}.${buf[offset + 1]}.${buf[offset + 2]}.${buf[offset + 3]}`;
+  if (type === TYPE_AAAA && length === 16) return ipv6.toStr(buf.slice(offset, offset + 16));
+  if (type === TYPE_CNAME) return decodeName(buf, offset)[0];
+  return '';
+}
+
+// questions and answers, the authority and additional sections are skipped
+export function decodeMessage(buf: Buffer): IMessage {
+  if (buf.length < 12) throw new Error('invalid dns message');
+  const flags = buf.readUInt16BE(2);
+  const qdcount = buf.readUInt16BE(4);
+  const ancount = buf.readUInt16BE(6);
+  const message: IMessage = {
+    id: buf.readUInt16BE(0),
+    response: !!(flags & FLAG_QR),
+    truncated: !!(flags & FLAG_TC),
+    rcode: flags & 0x000f,
+    questions: [],
+    answers: [],
+  };
+
+  let offset = 12;
+  for (let i = 0; i < qdcount; i++) {
+    let name: string;
+    [name, offset] = decodeName(buf, offset);
+    if (offset + 4 > buf.length) throw new Error('invalid dns message');
+    message.questions.push({ name, type: buf.readUInt16BE(offset) });
+    offset += 4;
+  }
+  for (let i = 0; i < ancount; i++) {
+    let name: string;
+    [name, offset] = decodeName(buf, offset);
+    if (offset + 10 > buf.length) throw new Error('invalid dns message');
+    const type = buf.readUInt16BE(offset);
+    const ttl = buf.readUInt32BE(offset + 4);
+    const length = buf.readUInt16BE(offset + 8);
+    offset += 10;
+    if (offset + length > buf.length) throw new Error('invalid dns message');
+    message.answers.push({ name, type, ttl, data: decodeData(buf, type, offset, length) });
+    offset += length;
+  }
+  return message;
+}
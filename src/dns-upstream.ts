@@ -0,0 +1,143 @@
+import * as dgram from 'dgram';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as stream from 'stream';
+import { URL } from 'url';
+
+// a dns server queries are sent to
+export interface IDNSUpstream {
+  address: string;
+  // resolves with the response to query, a whole dns message
+  exchange(query: Buffer, timeout: number): Promise<Buffer>;
+}
+
+function timeoutError(address: string) {
+  const err: NodeJS.ErrnoException = new Error(`dns query to ${address} timed out`);
+  err.code = 'ETIMEOUT';
+  return err;
+}
+
+// dns over tcp on a connected stream: both messages are prefixed with their length
+export function exchangeOverStream(socket: stream.Duplex, query: Buffer, timeout: number, address: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let received = Buffer.alloc(0);
+    const timer = setTimeout(() => socket.destroy(timeoutError(address)), timeout);
+
+    socket.on('error', reject);
+    socket.on('close', () => {
+      clearTimeout(timer);
+      reject(new Error(`dns connection to ${address} closed`));
+    });
+    socket.on('data', (chunk: Buffer) => {
+      received = Buffer.concat([received, chunk]);
+      if (received.length < 2 || received.length < 2 + received.readUInt16BE(0)) return;
+      resolve(received.slice(2, 2 + received.readUInt16BE(0)));
+      socket.destroy();
+    });
+
+    const length = Buffer.allocUnsafe(2);
+    length.writeUInt16BE(query.length);
+    socket.write(Buffer.concat([length, query]));
+  });
+}
+
+class TCPUpstream implements IDNSUpstream {
+  public address: string;
+  private host: string;
+  private port: number;
+
+  constructor(address: string, host: string, port: number) {
+    this.address = address;
+    this.host = host;
+    this.port = port;
+  }
+
+  exchange(query: Buffer, timeout: number) {
+    return exchangeOverStream(net.createConnection(this.port, this.host), query, timeout, this.address);
+  }
+}
+
+// truncated responses are asked again over tcp
+class UDPUpstream implements IDNSUpstream {
+  public address: string;
+  private host: string;
+  private port: number;
+  private tcp: TCPUpstream;
+
+  constructor(address: string, host: string, port: number) {
+    this.address = address;
+    this.host = host;
+    this.port = port;
+    this.tcp = new TCPUpstream(address, host, port);
+  }
+
+  exchange(query: Buffer, timeout: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket(net.isIPv6(this.host) ? 'udp6' : 'udp4');
+      const timer = setTimeout(() => finish(timeoutError(this.address)), timeout);
+      const finish = (err: Error, response?: Buffer) => {
+        clearTimeout(timer);
+        socket.close();
+        if (err) return reject(err);
+        // TC flag
+        if (response[2] & 0x02) return resolve(this.tcp.exchange(query, timeout));
+        resolve(response);
+      };
+
+      socket.on('error', (err) => finish(err));
+      socket.on('message', (message) => {
+        // anything but the answer to this id is ignored
+        if (message.length < 12 || message.readUInt16BE(0) !== query.readUInt16BE(0)) return;
+        finish(null, message);
+      });
+      socket.send(query, this.port, this.host);
+    });
+  }
+}
+
+// RFC 8484 dns over https, http:// also works, e.g. for a resolver on the same host
+class HTTPSUpstream implements IDNSUpstream {
+  public address: string;
+  private url: URL;
+
+  constructor(address: string) {
+    this.address = address;
+    this.url = new URL(address);
+  }
+
+  exchange(query: Buffer, timeout: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const request = this.url.protocol === 'http:' ? http.request : https.request;
+      const headers = { 'Content-Type': 'application/dns-message', Accept: 'application/dns-message', 'Content-Length': query.length };
+      const req = request(this.url, { method: 'POST', headers }, (res) => {
+        if (res.statusCode !== 200) {
+          res.resume();
+          return reject(new Error(`dns query to ${this.address} failed with status ${res.statusCode}`));
+        }
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk) => chunks.push(chunk));
+        res.on('end', () => resolve(Buffer.concat(chunks)));
+        res.on('error', reject);
+      });
+
+      const timer = setTimeout(() => req.destroy(timeoutError(this.address)), timeout);
+      req.on('close', () => clearTimeout(timer));
+      req.on('error', reject);
+      req.end(query);
+    });
+  }
+}
+
+// 8.8.8.8, udp://8.8.8.8:53, tcp://[2001:4860:4860::8888]:53 or https://dns.google/dns-query
+export function parseUpstream(server: string): IDNSUpstream {
+  if (net.isIP(server)) return new UDPUpstream(server, server, 53);
+
+  const url = new URL(server);
+  if (url.protocol === 'https:' || url.protocol === 'http:') return new HTTPSUpstream(server);
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const port = Number(url.port) || 53;
+  if (url.protocol === 'udp:') return new UDPUpstream(server, host, port);
+  if (url.protocol === 'tcp:') return new TCPUpstream(server, host, port);
+  throw new Error(`unknown dns server ${server}`);
+}
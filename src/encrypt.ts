@@ -1,10 +1,19 @@
 import { Transform, TransformCallback } from 'stream';
 import * as crypto from 'crypto';
 import * as hkdf from 'futoin-hkdf';
+import { blake3 } from '@noble/hashes/blake3';
 import { cipherInfoMap, Method } from './config';
+import { SaltFilter, SaltReplayError } from './salt-filter';
 
 // the maximum size of payload in bytes
 const MAX_PAYLOAD = 0x3fff;
+const MAX_PAYLOAD_2022 = 0xffff;
+
+// sip022 header constants
+const HEADER_TYPE_REQUEST = 0;
+const HEADER_TYPE_RESPONSE = 1;
+const MAX_TIME_DIFF = 30;
+const MAX_PADDING = 900;
 
 function md5(b: crypto.BinaryLike) {
   return crypto.createHash('md5').update(b).digest();
@@ -42,6 +51,26 @@ function evpBytesToKey(password: string, keyLen: number) {
   return value;
 }
 
+function decodePSK(password: string, keyLen: number) {
+  const psk = Buffer.from(password, 'base64');
+  if (psk.length !== keyLen) throw new Error(`invalid psk length, expect ${keyLen} bytes base64 encoded`);
+  return psk;
+}
+
+function mainKeyOf(method: Method, password: string) {
+  const { keyLen, sip022 } = cipherInfoMap[method];
+  return sip022 ? decodePSK(password, keyLen) : evpBytesToKey(password, keyLen);
+}
+
+function subkeyOf(method: Method, mainkey: Buffer, salt: Buffer) {
+  const { keyLen, sip022 } = cipherInfoMap[method];
+  if (sip022) {
+    const material = Buffer.concat([mainkey, salt]);
+    return Buffer.from(blake3(material, { context: 'shadowsocks 2022 session subkey', dkLen: keyLen }));
+  }
+  return hkdf(mainkey, keyLen, { salt, info: 'ss-subkey', hash: 'sha1' });
+}
+
 // increment little-endian encoded unsigned integer b. Wrap around on overflow.
 function increase(nonce: Buffer) {
   for (let i = 0; i < 12; i++) {
@@ -50,207 +79,380 @@ function increase(nonce: Buffer) {
   }
 }
 
+const TAG_LEN = 16;
+
+// writes [encrypted plain][tag] to out at offset, returns the offset after it.
+// node ciphers take the nonce only when created, so every sealed piece needs its own
+function sealInto(cipherName: string, key: Buffer, nonce: Buffer, plain: Buffer, out: Buffer, offset: number) {
+  const cipher = crypto.createCipheriv(cipherName as crypto.CipherGCMTypes, key, nonce, { authTagLength: TAG_LEN });
+  offset += cipher.update(plain).copy(out, offset);
+  cipher.final();
+  return offset + cipher.getAuthTag().copy(out, offset);
+}
+
+function open(cipherName: string, key: Buffer, nonce: Buffer, sealed: Buffer) {
+  const decipher = crypto.createDecipheriv(cipherName as crypto.CipherGCMTypes, key, nonce, { authTagLength: TAG_LEN });
+  decipher.setAuthTag(sealed.slice(sealed.length - TAG_LEN));
+  const plain = decipher.update(sealed.slice(0, sealed.length - TAG_LEN));
+  decipher.final();
+  return plain;
+}
+
+function checkTimestamp(buf: Buffer, offset: number) {
+  const timestamp = Number(buf.readBigUInt64BE(offset));
+  if (Math.abs(Date.now() / 1000 - timestamp) > MAX_TIME_DIFF) throw new Error('invalid timestamp');
+}
+
+// length of [ATYP][DST.ADDR][DST.PORT] at the beginning of buf
+function socks5HeadLength(buf: Buffer) {
+  switch (buf[0]) {
+    case 0x01:
+      return 7;
+    case 0x03:
+      return 4 + buf[1];
+    case 0x04:
+      return 19;
+    default:
+      throw new Error(`ATYP ${buf[0]} not support`);
+  }
+}
+
+export interface IEncryptorOptions {
+  // sip022 only: salt of the request stream, makes this a response stream
+  requestSalt?: Buffer;
+}
+
 export class Encryptor extends Transform {
+  public salt: Buffer;
   private method: Method;
-  private salt: Buffer;
+  private cipherName: string;
+  private maxPayload: number;
   private key: Buffer;
   private nonce: Buffer;
   private isPutSalt: boolean;
+  private requestSalt: Buffer;
+  // plain payload length, sealed right away so one is enough
+  private lenBuf: Buffer;
 
-  constructor(method: Method, password: string) {
+  constructor(method: Method, password: string, options?: IEncryptorOptions) {
     super();
 
     this.method = method;
-    const { keyLen, saltLen } = cipherInfoMap[method];
-    const mainkey = evpBytesToKey(password, keyLen);
+    const { cipher, saltLen, sip022 } = cipherInfoMap[method];
+    this.cipherName = cipher;
+    this.maxPayload = sip022 ? MAX_PAYLOAD_2022 : MAX_PAYLOAD;
     this.salt = crypto.randomBytes(saltLen);
-    this.key = hkdf(mainkey, keyLen, { salt: this.salt, info: 'ss-subkey', hash: 'sha1' });
+    this.key = subkeyOf(method, mainKeyOf(method, password), this.salt);
     this.nonce = Buffer.alloc(12);
     this.isPutSalt = false;
+    this.requestSalt = options?.requestSalt || null;
+    this.lenBuf = Buffer.allocUnsafe(2);
+  }
+
+  private sealNext(plain: Buffer, out: Buffer, offset: number) {
+    offset = sealInto(this.cipherName, this.key, this.nonce, plain, out, offset);
+    increase(this.nonce);
+    return offset;
+  }
+
+  // request: [salt][fixed-length header][variable-length header]
+  //   fixed-length header: [type][timestamp][length], all encrypted as one chunk
+  //   variable-length header: [ATYP][DST.ADDR][DST.PORT][padding length][padding][initial payload]
+  // the first chunk written to a request stream must begin with the target address;
+  // returns the headers to seal and the rest of the chunk
+  private requestHeader(chunk: Buffer): [Buffer[], Buffer] {
+    const addrLen = socks5HeadLength(chunk);
+    // the whole variable-length header must fit in one chunk
+    const payload = chunk.slice(addrLen, this.maxPayload - 2);
+    const paddingLen = payload.length > 0 ? 0 : crypto.randomInt(1, MAX_PADDING + 1);
+    const varHeader = Buffer.concat([
+      chunk.slice(0, addrLen),
+      Buffer.from([paddingLen >> 8, paddingLen & 0xff]),
+      crypto.randomBytes(paddingLen),
+      payload,
+    ]);
+
+    const fixedHeader = Buffer.allocUnsafe(11);
+    fixedHeader[0] = HEADER_TYPE_REQUEST;
+    fixedHeader.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 1000)), 1);
+    fixedHeader.writeUInt16BE(varHeader.length, 9);
+
+    return [[fixedHeader, varHeader], chunk.slice(addrLen + payload.length)];
   }
 
+  // response: [salt][fixed-length header][first payload chunk]
+  //   fixed-length header: [type][timestamp][request salt][length]
+  private responseHeader(chunk: Buffer): [Buffer[], Buffer] {
+    const payload = chunk.slice(0, this.maxPayload);
+    const fixedHeader = Buffer.allocUnsafe(11 + this.requestSalt.length);
+    fixedHeader[0] = HEADER_TYPE_RESPONSE;
+    fixedHeader.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 1000)), 1);
+    this.requestSalt.copy(fixedHeader, 9);
+    fixedHeader.writeUInt16BE(payload.length, 9 + this.requestSalt.length);
+
+    return [[fixedHeader, payload], chunk.slice(payload.length)];
+  }
+
+  // pushes the whole chunk sealed as one buffer
   private update(chunk: Buffer) {
+    let salt: Buffer = null;
+    let headers: Buffer[] = [];
     if (!this.isPutSalt) {
-      this.push(this.salt);
+      salt = this.salt;
       this.isPutSalt = true;
+
+      if (cipherInfoMap[this.method].sip022) {
+        [headers, chunk] = this.requestSalt ? this.responseHeader(chunk) : this.requestHeader(chunk);
+      }
     }
 
-    const len = chunk.length;
-    const times = Math.ceil(len / MAX_PAYLOAD);
-
-    for (let i = 1; i <= times; i++) {
-      const startIndex = (i - 1) * MAX_PAYLOAD;
-      const payloadLen = i === times ? len - startIndex : MAX_PAYLOAD;
-      const payload = chunk.slice(startIndex, startIndex + payloadLen);
-
-      // [encrypted payload length][length tag][encrypted payload][payload tag]
-
-      const cipher1 = crypto.createCipheriv(this.method as crypto.CipherGCMTypes, this.key, this.nonce, { authTagLength: 16 });
-      const lenBuf = Buffer.allocUnsafe(2);
-      lenBuf.writeUInt16BE(payloadLen);
-      this.push(cipher1.update(lenBuf));
-      cipher1.final();
-      this.push(cipher1.getAuthTag());
-      increase(this.nonce);
-
-      const cipher2 = crypto.createCipheriv(this.method as crypto.CipherGCMTypes, this.key, this.nonce, { authTagLength: 16 });
-      this.push(cipher2.update(payload));
-      cipher2.final();
-      this.push(cipher2.getAuthTag());
-      increase(this.nonce);
+    // [encrypted payload length][length tag][encrypted payload][payload tag] for each payload
+    const payloads = Math.ceil(chunk.length / this.maxPayload);
+    let size = (salt ? salt.length : 0) + chunk.length + payloads * (2 + TAG_LEN * 2);
+    for (const header of headers) size += header.length + TAG_LEN;
+    if (!size) return;
+
+    const out = Buffer.allocUnsafe(size);
+    let offset = salt ? salt.copy(out) : 0;
+    for (const header of headers) offset = this.sealNext(header, out, offset);
+    for (let start = 0; start < chunk.length; start += this.maxPayload) {
+      const payload = chunk.slice(start, start + this.maxPayload);
+      this.lenBuf.writeUInt16BE(payload.length);
+      offset = this.sealNext(this.lenBuf, out, offset);
+      offset = this.sealNext(payload, out, offset);
     }
+    this.push(out);
   }
 
   _transform(chunk: any, encoding: BufferEncoding, callback: TransformCallback) {
-    this.update(chunk);
-    callback();
+    try {
+      this.update(chunk);
+      callback();
+    } catch (err) {
+      callback(err);
+    }
+  }
+}
+
+// received bytes not handled yet; bytes are read without concatenating
+// every chunk, only a piece that spans chunks is copied
+class ChunkQueue {
+  public length: number;
+  private chunks: Buffer[];
+
+  constructor() {
+    this.length = 0;
+    this.chunks = [];
+  }
+
+  push(chunk: Buffer) {
+    if (!chunk.length) return;
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  // the next n bytes, n must not exceed length
+  read(n: number) {
+    this.length -= n;
+    const first = this.chunks[0];
+    if (first.length >= n) {
+      if (first.length === n) {
+        this.chunks.shift();
+      } else {
+        this.chunks[0] = first.slice(n);
+      }
+      return first.slice(0, n);
+    }
+
+    const out = Buffer.allocUnsafe(n);
+    let offset = 0;
+    while (offset < n) {
+      const chunk = this.chunks[0];
+      const len = Math.min(chunk.length, n - offset);
+      offset += chunk.copy(out, offset, 0, len);
+      if (len === chunk.length) {
+        this.chunks.shift();
+      } else {
+        this.chunks[0] = chunk.slice(len);
+      }
+    }
+    return out;
   }
 }
 
+export interface IDecryptorOptions {
+  // will emit "firstPayload" event but not transform firstPayload
+  emitFirstPayload?: boolean;
+  // reject salts seen before, checked once the first chunk is authenticated
+  saltFilter?: SaltFilter;
+  // sip022 only: salt of the request stream, makes this a response stream
+  requestSalt?: Buffer;
+}
+
+// what the decryptor waits for, in stream order:
+// salt, then the sip022 header (requestHeader and varHeader, or responseHeader),
+// then length and payload in turn
+type DecryptState = 'salt' | 'requestHeader' | 'varHeader' | 'responseHeader' | 'length' | 'payload';
+
 export class Decryptor extends Transform {
+  public salt: Buffer;
   private method: Method;
-  private keyLen: number;
+  private cipherName: string;
+  private maxPayload: number;
+  private sip022: boolean;
   private saltLen: number;
   private mainkey: Buffer;
-  private isGotSalt: boolean;
+  private isCheckedSalt: boolean;
+  private saltFilter: SaltFilter;
+  private requestSalt: Buffer;
   private nonce: Buffer;
-  private salt: Buffer;
   private key: Buffer;
   private emitFirstPayload: boolean;
   private _emitedFirstPayload: boolean;
   private _firstPayloads: Buffer[];
-  private _buf: Buffer;
-  private _state: number;
-  private _payloadLen: number;
-  private _handledPayloadLen: number;
-  private _cipher2: crypto.DecipherGCM;
+  private _queue: ChunkQueue;
+  private _state: DecryptState;
+  // bytes the state needs, handled once all of them arrived
+  private _need: number;
 
-  constructor(method: Method, password: string, options?: { emitFirstPayload: boolean }) {
+  constructor(method: Method, password: string, options?: IDecryptorOptions) {
     super();
 
     this.method = method;
-    const { keyLen, saltLen } = cipherInfoMap[method];
-    this.keyLen = keyLen;
+    const { cipher, saltLen, sip022 } = cipherInfoMap[method];
+    this.cipherName = cipher;
+    this.maxPayload = sip022 ? MAX_PAYLOAD_2022 : MAX_PAYLOAD;
+    this.sip022 = sip022;
     this.saltLen = saltLen;
-    this.mainkey = evpBytesToKey(password, keyLen);
-    this.isGotSalt = false;
+    this.mainkey = mainKeyOf(method, password);
+    this.saltFilter = options?.saltFilter || null;
+    this.isCheckedSalt = !this.saltFilter;
+    this.requestSalt = options?.requestSalt || null;
     this.nonce = Buffer.alloc(12);
 
     this.salt = null;
     this.key = null;
 
-    // will emit "firstPayload" event but not transform firstPayload
     this.emitFirstPayload = options?.emitFirstPayload || false;
     this._emitedFirstPayload = false;
     this._firstPayloads = this.emitFirstPayload ? [] : null;
 
-    // unhandled buffer last time
-    this._buf = null;
-    this._state = 1;
-    this._payloadLen = 0;
-    this._handledPayloadLen = 0;
-    this._cipher2 = null;
+    this._queue = new ChunkQueue();
+    this._state = 'salt';
+    this._need = saltLen;
   }
 
-  // after got salt, handle payload state:
-  // 1                                    2                  3            4
-  // 1 - only begin, not have _buf
-  // [encrypted payload length][length tag][encrypted payload][payload tag]
-  update(chunk: Buffer) {
-    if (this._buf) {
-      chunk = Buffer.concat([this._buf, chunk]);
-      this._buf = null;
+  private openNext(sealed: Buffer) {
+    const plain = open(this.cipherName, this.key, this.nonce, sealed);
+    increase(this.nonce);
+    return plain;
+  }
+
+  private checkSalt() {
+    if (this.isCheckedSalt) return;
+    this.isCheckedSalt = true;
+    if (!this.saltFilter.check(this.salt)) throw new SaltReplayError();
+  }
+
+  private emitPayload(payload: Buffer) {
+    if (this.emitFirstPayload && !this._emitedFirstPayload) {
+      this._firstPayloads.push(payload);
+    } else {
+      this.push(payload);
     }
+  }
 
-    if (!this.isGotSalt) {
-      if (chunk.length < this.saltLen) throw new Error('invalid salt');
-      this.salt = chunk.slice(0, this.saltLen);
-      this.key = hkdf(this.mainkey, this.keyLen, { salt: this.salt, info: 'ss-subkey', hash: 'sha1' });
-      this.isGotSalt = true;
-      if (chunk.length === this.saltLen) return;
-      chunk = chunk.slice(this.saltLen);
+  private finishFirstPayload() {
+    if (this.emitFirstPayload && !this._emitedFirstPayload) {
+      this.emit('firstPayload', Buffer.concat(this._firstPayloads));
+      this._emitedFirstPayload = true;
+      this._firstPayloads = null;
     }
+  }
 
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
-      if (this._state === 1 || this._state === 2) {
-        this._state = 2;
-
-        // [encrypted payload length][length tag] = 2 + 16
-        if (chunk.length < 18) {
-          this._buf = chunk;
-          return;
-        }
-
-        const cipher1 = crypto.createDecipheriv(this.method as crypto.CipherGCMTypes, this.key, this.nonce, { authTagLength: 16 });
-        cipher1.setAuthTag(chunk.slice(2, 18));
-        const lenBuf = cipher1.update(chunk.slice(0, 2));
-        cipher1.final();
-        increase(this.nonce);
-        this._payloadLen = lenBuf.readUInt16BE();
-        if (this._payloadLen > MAX_PAYLOAD) throw new Error('invalid payload len');
-
-        this._state = 3;
-
-        if (chunk.length === 18) return;
-        chunk = chunk.slice(18);
-      }
+  private next(state: DecryptState, need: number) {
+    this._state = state;
+    this._need = need;
+  }
 
-      if (this._state === 3) {
-        if (!this._cipher2) {
-          this._cipher2 = crypto.createDecipheriv(this.method as crypto.CipherGCMTypes, this.key, this.nonce, { authTagLength: 16 });
-        }
-
-        if (chunk.length + this._handledPayloadLen < this._payloadLen) {
-          const transed = this._cipher2.update(chunk);
-          this._handledPayloadLen += chunk.length;
-
-          if (this.emitFirstPayload && !this._emitedFirstPayload) {
-            this._firstPayloads.push(transed);
-          } else {
-            this.push(transed);
-          }
-
-          return;
-        }
-
-        this._state = 4;
-        const leftLen = this._payloadLen - this._handledPayloadLen;
-        const transed = this._cipher2.update(chunk.slice(0, leftLen));
-        this._handledPayloadLen = this._payloadLen;
-
-        if (this.emitFirstPayload && !this._emitedFirstPayload) {
-          this._firstPayloads.push(transed);
-        } else {
-          this.push(transed);
-        }
-
-        if (leftLen === chunk.length) return;
-        chunk = chunk.slice(leftLen);
-      }
+  private readSalt(salt: Buffer) {
+    this.salt = salt;
+    this.key = subkeyOf(this.method, this.mainkey, salt);
+    if (!this.sip022) return this.next('length', 2 + TAG_LEN);
+    if (this.requestSalt) return this.next('responseHeader', 11 + this.saltLen + TAG_LEN);
+    this.next('requestHeader', 11 + TAG_LEN);
+  }
 
-      // state 4
-      if (chunk.length < 16) {
-        this._buf = chunk;
-        return;
-      }
-      this._cipher2.setAuthTag(chunk.slice(0, 16));
-      this._cipher2.final();
-      increase(this.nonce);
-
-      this._cipher2 = null;
-      this._state = 1;
-      this._payloadLen = 0;
-      this._handledPayloadLen = 0;
-
-      if (this.emitFirstPayload && !this._emitedFirstPayload) {
-        this.emit('firstPayload', Buffer.concat(this._firstPayloads));
-        this._emitedFirstPayload = true;
-        this._firstPayloads = null;
-      }
+  // sip022 request: [fixed-length header][tag], then the variable-length header
+  private readRequestHeader(sealed: Buffer) {
+    const fixedHeader = this.openNext(sealed);
+    this.checkSalt();
+    if (fixedHeader[0] !== HEADER_TYPE_REQUEST) throw new Error('invalid header type');
+    checkTimestamp(fixedHeader, 1);
+    this.next('varHeader', fixedHeader.readUInt16BE(9) + TAG_LEN);
+  }
+
+  private readVarHeader(sealed: Buffer) {
+    const varHeader = this.openNext(sealed);
+    const addrLen = socks5HeadLength(varHeader);
+    const paddingLen = varHeader.readUInt16BE(addrLen);
+    const payloadIndex = addrLen + 2 + paddingLen;
+    if (payloadIndex > varHeader.length) throw new Error('invalid padding');
+    if (payloadIndex === varHeader.length && paddingLen === 0) throw new Error('invalid padding');
+
+    this.emitPayload(Buffer.concat([varHeader.slice(0, addrLen), varHeader.slice(payloadIndex)]));
+    this.finishFirstPayload();
+    this.next('length', 2 + TAG_LEN);
+  }
+
+  // sip022 response: [fixed-length header][tag], then the first payload chunk
+  private readResponseHeader(sealed: Buffer) {
+    const fixedHeader = this.openNext(sealed);
+    if (fixedHeader[0] !== HEADER_TYPE_RESPONSE) throw new Error('invalid header type');
+    checkTimestamp(fixedHeader, 1);
+    if (!fixedHeader.slice(9, 9 + this.saltLen).equals(this.requestSalt)) throw new Error('invalid request salt');
+    this.next('payload', fixedHeader.readUInt16BE(9 + this.saltLen) + TAG_LEN);
+  }
 
-      if (chunk.length === 16) return;
-      chunk = chunk.slice(16);
+  // [encrypted payload length][length tag]
+  private readLength(sealed: Buffer) {
+    const payloadLen = this.openNext(sealed).readUInt16BE();
+    this.checkSalt();
+    if (payloadLen > this.maxPayload) throw new Error('invalid payload len');
+    this.next('payload', payloadLen + TAG_LEN);
+  }
+
+  // [encrypted payload][payload tag], pushed only once authenticated
+  private readPayload(sealed: Buffer) {
+    this.emitPayload(this.openNext(sealed));
+    this.finishFirstPayload();
+    this.next('length', 2 + TAG_LEN);
+  }
+
+  update(chunk: Buffer) {
+    this._queue.push(chunk);
+    while (this._queue.length >= this._need) {
+      const data = this._queue.read(this._need);
+      switch (this._state) {
+        case 'salt':
+          this.readSalt(data);
+          break;
+        case 'requestHeader':
+          this.readRequestHeader(data);
+          break;
+        case 'varHeader':
+          this.readVarHeader(data);
+          break;
+        case 'responseHeader':
+          this.readResponseHeader(data);
+          break;
+        case 'length':
+          this.readLength(data);
+          break;
+        case 'payload':
+          this.readPayload(data);
+          break;
+      }
     }
   }
 
@@ -263,11 +465,53 @@ export class Decryptor extends Transform {
     }
   }
 
+  // the stream may only end between payloads, or before anything arrived
   _flush(callback: TransformCallback) {
-    if (this._state !== 1) {
+    if (this._queue.length || (this._state !== 'length' && this._state !== 'salt')) {
       callback(new Error('invalid data'));
     } else {
       callback();
     }
   }
 }
+
+// udp packet: [salt][encrypted payload][tag]
+// every packet uses a fresh salt, so the nonce is always zero
+export function encryptPacket(method: Method, password: string, payload: Buffer) {
+  const { cipher, saltLen, sip022 } = cipherInfoMap[method];
+  if (sip022) throw new Error(`udp relay not support method ${method}`);
+  const salt = crypto.randomBytes(saltLen);
+  const key = subkeyOf(method, mainKeyOf(method, password), salt);
+  const packet = Buffer.allocUnsafe(saltLen + payload.length + TAG_LEN);
+  sealInto(cipher, key, Buffer.alloc(12), payload, packet, salt.copy(packet));
+  return packet;
+}
+
+export function decryptPacket(method: Method, password: string, packet: Buffer) {
+  const { cipher, saltLen, sip022 } = cipherInfoMap[method];
+  if (sip022) throw new Error(`udp relay not support method ${method}`);
+  if (packet.length < saltLen + TAG_LEN) throw new Error('invalid packet');
+  const salt = packet.slice(0, saltLen);
+  const key = subkeyOf(method, mainKeyOf(method, password), salt);
+  return open(cipher, key, Buffer.alloc(12), packet.slice(saltLen));
+}
+
+// bytes needed by tryFirstChunk: [salt][length chunk] or [salt][fixed-length header]
+export function firstChunkLength(method: Method) {
+  const { saltLen, sip022 } = cipherInfoMap[method];
+  return saltLen + (sip022 ? 27 : 18);
+}
+
+// whether the beginning of a request stream was encrypted with this method and password
+export function tryFirstChunk(method: Method, password: string, data: Buffer) {
+  const { cipher, saltLen } = cipherInfoMap[method];
+  if (data.length < firstChunkLength(method)) return false;
+  const salt = data.slice(0, saltLen);
+  const key = subkeyOf(method, mainKeyOf(method, password), salt);
+  try {
+    open(cipher, key, Buffer.alloc(12), data.slice(saltLen, firstChunkLength(method)));
+    return true;
+  } catch (err) {
+    return false;
+  }
+}
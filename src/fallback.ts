@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { URL } from 'url';
+import { Logger } from './logger';
+
+const logger = new Logger('fallback');
+
+export type RequestHandler = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+const contentTypes: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.ico': 'image/x-icon',
+  '.webp': 'image/webp',
+  '.woff2': 'font/woff2',
+};
+
+function notFound(res: http.ServerResponse) {
+  res.writeHead(404, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end('<html><head><title>404 Not Found</title></head><body><h1>Not Found</h1></body></html>\n');
+}
+
+function serveStatic(root: string): RequestHandler {
+  root = path.resolve(root);
+
+  return (req, res) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' });
+      res.end();
+      return;
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url, 'http://localhost').pathname);
+    } catch (err) {
+      return notFound(res);
+    }
+    // resolved against / first so that .. cannot leave root
+    let file = path.join(root, path.resolve('/', pathname));
+
+    fs.stat(file, (err, stat) => {
+      if (!err && stat.isDirectory()) {
+        file = path.join(file, 'index.html');
+        stat = fs.existsSync(file) ? fs.statSync(file) : null;
+      }
+      if (err || !stat?.isFile()) return notFound(res);
+
+      res.writeHead(200, {
+        'Content-Type': contentTypes[path.extname(file).toLowerCase()] || 'application/octet-stream',
+        'Content-Length': stat.size,
+        'Last-Modified': stat.mtime.toUTCString(),
+      });
+      if (req.method === 'HEAD') return res.end();
+      fs.createReadStream(file).pipe(res);
+    });
+  };
+}
+
+function reverseProxy(target: string): RequestHandler {
+  const base = new URL(target);
+  const request = base.protocol === 'https:' ? https.request : http.request;
+
+  return (req, res) => {
+    const proxyReq = request(
+      {
+        protocol: base.protocol,
+        hostname: base.hostname,
+        port: base.port,
+        method: req.method,
+        path: req.url,
+        headers: { ...req.headers, host: base.host },
+      },
+      (proxyRes) => {
+        res.writeHead(proxyRes.statusCode, proxyRes.headers);
+        proxyRes.pipe(res);
+      }
+    );
+
+    proxyReq.on('error', (err) => {
+      logger.warn('fallback %s error: %s', target, err.message);
+      if (!res.headersSent) {
+        res.writeHead(502);
+        res.end();
+      } else {
+        res.destroy();
+      }
+    });
+
+    req.pipe(proxyReq);
+  };
+}
+
+// what plain http requests get, so the server looks like an ordinary site:
+// a directory of static files, a http(s):// site reverse proxied, or a bare 404
+export function createFallback(fallback?: string): RequestHandler {
+  let handler: RequestHandler;
+  if (!fallback) handler = (_req, res) => notFound(res);
+  else if (/^https?:\/\//.test(fallback)) handler = reverseProxy(fallback);
+  else handler = serveStatic(fallback);
+
+  // request targets which are no url, e.g. //, get a 404 before reaching a handler
+  return (req, res) => {
+    try {
+      new URL(req.url, 'http://localhost');
+    } catch (err) {
+      return notFound(res);
+    }
+    handler(req, res);
+  };
+}
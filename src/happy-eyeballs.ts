@@ -0,0 +1,57 @@
+import * as net from 'net';
+
+// RFC 8305 connection attempt delay
+const ATTEMPT_DELAY = 250;
+// how long an address may take to accept the connection, the idle timeout applies after
+const CONNECT_TIMEOUT = 10 * 1000;
+
+// connects to port on the first of hosts that answers: the next attempt starts when the
+// previous one fails or is still pending after ATTEMPT_DELAY, the rest are dropped once
+// one connects. rejects with the last error when every host failed
+export function connectHappyEyeballs(hosts: string[], port: number, timeout = CONNECT_TIMEOUT): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const pending = new Set<net.Socket>();
+    let next = 0;
+    let lastError: Error = null;
+    let timer: NodeJS.Timeout = null;
+
+    const attempt = () => {
+      clearTimeout(timer);
+      if (next >= hosts.length) {
+        if (!pending.size) reject(lastError || new Error('no address to connect'));
+        return;
+      }
+
+      const host = hosts[next++];
+      const socket = net.createConnection(port, host);
+      pending.add(socket);
+
+      const onError = (err: Error) => {
+        pending.delete(socket);
+        lastError = err;
+        attempt();
+      };
+      const onTimeout = () => {
+        const err: NodeJS.ErrnoException = new Error(`connect ETIMEDOUT ${host}:${port}`);
+        err.code = 'ETIMEDOUT';
+        socket.destroy(err);
+      };
+      socket.once('error', onError);
+      socket.setTimeout(timeout, onTimeout);
+
+      socket.once('connect', () => {
+        clearTimeout(timer);
+        socket.removeListener('error', onError);
+        socket.removeListener('timeout', onTimeout);
+        socket.setTimeout(0);
+        pending.delete(socket);
+        for (const other of pending) other.destroy();
+        resolve(socket);
+      });
+
+      timer = setTimeout(attempt, ATTEMPT_DELAY);
+    };
+
+    attempt();
+  });
+}
@@ -2,16 +2,30 @@ import * as net from 'net';
 import { URL } from 'url';
 import * as http from 'http';
 import { Logger } from './logger';
+import { ILocalUser } from './config';
+import { ConnectionTracker } from './connections';
+import { connectionsRejected } from './metrics';
+import { checkLocalUser } from './utils';
 
 const logger = new Logger('http-proxy');
 
+// the socks5 listener refused the request, answered with 503
+class Socks5RefusedError extends Error {
+  constructor() {
+    super('socks5 endpoint refused the request');
+    this.name = 'Socks5RefusedError';
+  }
+}
+
 class Socks5Client {
   private socksHost: string;
   private socksPort: number;
+  private auth: ILocalUser;
 
-  constructor(socksHost: string, socksPort: number) {
+  constructor(socksHost: string, socksPort: number, auth?: ILocalUser) {
     this.socksHost = socksHost;
     this.socksPort = socksPort;
+    this.auth = auth || null;
   }
 
   public async connect(host: string, port: number): Promise<net.Socket> {
@@ -27,14 +41,27 @@ class Socks5Client {
       };
 
       socket.once('connect', async () => {
-        socket.write(Buffer.from([0x05, 0x01, 0x00]));
+        const method = this.auth ? 0x02 : 0x00;
+        socket.write(Buffer.from([0x05, 0x01, method]));
 
         const res = await consume();
-        if (!Buffer.from([0x05, 0x00]).equals(res)) {
+        if (!Buffer.from([0x05, method]).equals(res)) {
           socket.destroy();
           return reject(new Error('error socks5 endpoint 1'));
         }
 
+        if (this.auth) {
+          const username = Buffer.from(this.auth.username);
+          const password = Buffer.from(this.auth.password);
+          socket.write(Buffer.concat([Buffer.from([0x01, username.length]), username, Buffer.from([password.length]), password]));
+
+          const authRes = await consume();
+          if (authRes[0] !== 0x01 || authRes[1] !== 0x00) {
+            socket.destroy();
+            return reject(new Error('error socks5 auth'));
+          }
+        }
+
         const portBuf = Buffer.allocUnsafe(2);
         portBuf.writeInt16BE(Number(port));
         const data = Buffer.concat([Buffer.from([0x05, 0x01, 0x00, 0x03, Buffer.byteLength(host)]), Buffer.from(host), portBuf]);
@@ -43,6 +70,8 @@ class Socks5Client {
         const res2 = await consume();
         if (res2[0] !== 5 || res2[1] !== 0) {
           socket.destroy();
+          // X'01' general failure, the socks5 listener is over max_connections
+          if (res2[1] === 0x01) return reject(new Socks5RefusedError());
           return reject(new Error('error socks5 endpoint 2'));
         }
 
@@ -55,16 +84,17 @@ class Socks5Client {
 interface Socks5AgentOptions extends http.AgentOptions {
   socksHost: string;
   socksPort: number;
+  auth?: ILocalUser;
 }
 
 class Socks5Agent extends http.Agent {
   private socks5Client: Socks5Client;
 
   constructor(opts: Socks5AgentOptions) {
-    const { socksHost, socksPort, ...leftOpts } = opts;
+    const { socksHost, socksPort, auth, ...leftOpts } = opts;
     super(leftOpts);
 
-    this.socks5Client = new Socks5Client(socksHost, socksPort);
+    this.socks5Client = new Socks5Client(socksHost, socksPort, auth);
   }
 
   public createConnection(options: http.ClientRequestArgs, oncreate: (err: Error, socket: net.Socket) => void): net.Socket {
@@ -86,29 +116,123 @@ class Socks5Agent extends http.Agent {
   }
 }
 
+interface IUpstream {
+  // empty without local_users
+  username: string;
+  agent: http.Agent;
+  socks5Client: Socks5Client;
+}
+
+const BAD_REQUEST = 'HTTP/1.1 400 Bad Request\r\nConnection: close\r\nContent-Length: 0\r\n\r\n';
+const SERVICE_UNAVAILABLE = 'HTTP/1.1 503 Service Unavailable\r\nConnection: close\r\nContent-Length: 0\r\n\r\n';
+
 export class HTTPProxy {
   private port: number;
   private server: http.Server;
-  private agent: http.Agent;
-  private socks5Client: Socks5Client;
-
-  constructor(options: { port: number; socksHost: string; socksPort: number }) {
+  private socksHost: string;
+  private socksPort: number;
+  private users: ILocalUser[];
+  // authenticated username -> socks5 upstream using the same credentials
+  private upstreams: Map<string, IUpstream>;
+  private pac: string;
+  // proxied requests and tunnels in progress
+  private connections: ConnectionTracker;
+
+  constructor(options: { port: number; socksHost: string; socksPort: number; users?: ILocalUser[]; pac?: string; connections?: ConnectionTracker }) {
     this.port = options.port;
-    this.agent = new Socks5Agent({ socksHost: options.socksHost, socksPort: options.socksPort, keepAlive: true });
-    this.socks5Client = new Socks5Client(options.socksHost, options.socksPort);
+    this.connections = options.connections || new ConnectionTracker();
+    this.pac = options.pac || null;
+    this.socksHost = options.socksHost;
+    this.socksPort = options.socksPort;
+    this.users = options.users || [];
+    this.upstreams = new Map();
     this.server = this.createServer();
   }
 
+  private getUpstream(user: ILocalUser) {
+    const key = user ? user.username : '';
+    let upstream = this.upstreams.get(key);
+    if (!upstream) {
+      upstream = {
+        username: key,
+        agent: new Socks5Agent({ socksHost: this.socksHost, socksPort: this.socksPort, auth: user, keepAlive: true }),
+        socks5Client: new Socks5Client(this.socksHost, this.socksPort, user),
+      };
+      this.upstreams.set(key, upstream);
+    }
+    return upstream;
+  }
+
+  // Proxy-Authorization: Basic base64(username:password)
+  // returns null if authentication required but failed
+  private authenticate(req: http.IncomingMessage): IUpstream {
+    if (!this.users.length) return this.getUpstream(null);
+
+    const [scheme, credentials] = (req.headers['proxy-authorization'] || '').split(' ');
+    if (scheme?.toLowerCase() !== 'basic' || !credentials) return null;
+
+    const decoded = Buffer.from(credentials, 'base64').toString();
+    const index = decoded.indexOf(':');
+    if (index === -1) return null;
+    const username = decoded.slice(0, index);
+    const password = decoded.slice(index + 1);
+    if (!checkLocalUser(this.users, username, password)) {
+      logger.warn('http proxy auth failed', username, req.socket.remoteAddress);
+      return null;
+    }
+
+    return this.getUpstream({ username, password });
+  }
+
+  // requests with a relative url are for us, not to be proxied
+  private handleLocal(req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+    const { pathname } = url;
+    if (this.pac && req.method === 'GET' && pathname === '/proxy.pac') {
+      res.writeHead(200, { 'Content-Type': 'application/x-ns-proxy-autoconfig' });
+      res.end(this.pac);
+      return;
+    }
+
+    res.writeHead(404);
+    res.end();
+  }
+
   private createServer() {
     const server = http.createServer();
 
     server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
       logger.info('http %s %s', req.method, req.url);
 
-      const url = new URL(req.url);
+      // absolute urls are proxied, relative ones are for us; anything else, e.g. *, is not a url
+      let url: URL;
+      try {
+        url = req.url.startsWith('/') ? new URL(req.url, 'http://localhost') : new URL(req.url);
+      } catch (err) {
+        res.writeHead(400, { Connection: 'close' });
+        res.end();
+        return;
+      }
+      if (req.url.startsWith('/')) {
+        this.handleLocal(req, res, url);
+        return;
+      }
+
+      const upstream = this.authenticate(req);
+      if (!upstream) {
+        res.writeHead(407, { 'Proxy-Authenticate': 'Basic realm="node-shadowsocks"' });
+        res.end();
+        return;
+      }
+      delete req.headers['proxy-authorization'];
+      if (!this.track(res, upstream.username)) {
+        res.writeHead(503, { Connection: 'close' });
+        res.end();
+        return;
+      }
+
       const proxyClient = http.request(
         {
-          agent: this.agent,
+          agent: upstream.agent,
           hostname: url.hostname,
           port: url.port || 80,
           method: req.method,
@@ -123,7 +247,7 @@ export class HTTPProxy {
 
       proxyClient.on('error', (err) => {
         logger.error('proxyClient error', err);
-        if (!res.headersSent) res.writeHead(502);
+        if (!res.headersSent) res.writeHead(err instanceof Socks5RefusedError ? 503 : 502);
         if (!res.writableEnded) res.end();
       });
 
@@ -132,15 +256,37 @@ export class HTTPProxy {
 
     server.on('connect', async (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
       logger.info('https %s', req.url);
-      const url = new URL('https://' + req.url);
+
+      let url: URL;
+      try {
+        url = new URL('https://' + req.url);
+      } catch (err) {
+        socket.end(BAD_REQUEST);
+        return;
+      }
+
+      const upstream = this.authenticate(req);
+      if (!upstream) {
+        socket.end('HTTP/1.1 407 Proxy Authentication Required\r\nProxy-Authenticate: Basic realm="node-shadowsocks"\r\n\r\n');
+        return;
+      }
+      if (!this.track(socket, upstream.username)) {
+        socket.end(SERVICE_UNAVAILABLE);
+        return;
+      }
+
       const hostname = url.hostname;
       const port = Number(url.port) || 443;
 
       let clientSocket: net.Socket;
       try {
-        clientSocket = await this.socks5Client.connect(hostname, port);
+        clientSocket = await upstream.socks5Client.connect(hostname, port);
       } catch (err) {
-        socket.destroy();
+        if (err instanceof Socks5RefusedError) {
+          socket.end(SERVICE_UNAVAILABLE);
+        } else {
+          socket.destroy();
+        }
         logger.error('clientSocket error', err);
         return;
       }
@@ -163,6 +309,21 @@ export class HTTPProxy {
     return server;
   }
 
+  // false when max_connections of the listener or of the user is reached
+  private track(conn: http.ServerResponse | net.Socket, username: string) {
+    if (!this.connections.add(conn)) {
+      connectionsRejected.inc({ scope: 'listener' });
+      logger.warn('max_connections reached, http proxy request refused');
+      return false;
+    }
+    if (username && !this.connections.addUser(conn, username)) {
+      connectionsRejected.inc({ scope: 'user' });
+      logger.warn('max_connections of %s reached, http proxy request refused', username);
+      return false;
+    }
+    return true;
+  }
+
   public start() {
     this.server.on('error', (err) => {
       logger.info('http proxy server error:', err);
@@ -172,4 +333,10 @@ export class HTTPProxy {
       logger.info('http proxy listen at %s', this.port);
     });
   }
+
+  // stops accepting, requests and tunnels in progress get timeout ms to finish
+  public async shutdown(timeout: number) {
+    this.server.close();
+    await this.connections.drain(timeout);
+  }
 }
@@ -0,0 +1,238 @@
+import * as dgram from 'dgram';
+import * as dns from 'dns';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as stream from 'stream';
+import * as LRU from 'lru-cache';
+import { Singleflight } from '@zcong/singleflight';
+import { DNSRoute, ILocalDNSConfig } from './config';
+import { decodeMessage, encodeResponse, IAnswer, IMessage, RCODE_NOERROR, RCODE_NXDOMAIN, RCODE_SERVFAIL, TYPE_A, TYPE_AAAA, TYPE_CNAME } from './dns-packet';
+import { exchangeOverStream, IDNSUpstream, parseUpstream } from './dns-upstream';
+import { Encryptor, Decryptor } from './encrypt';
+import { Logger } from './logger';
+import { parseDomainList } from './pac';
+import { UpstreamPool } from './upstream';
+import { encodeSocks5Head } from './utils';
+
+const logger = new Logger('local-dns');
+
+// seconds
+const TIMEOUT = 5;
+const NEGATIVE_TTL = 30;
+const IDLE_TIMEOUT = 30;
+
+// answers of these are cached, queries of other types are passed on as they are
+const CACHED_TYPES = [TYPE_A, TYPE_AAAA, TYPE_CNAME];
+
+interface ICachedAnswer {
+  rcode: number;
+  answers: IAnswer[];
+  // ms, the ttls of answers count down from here
+  time: number;
+}
+
+// dns over tcp to host:port in a connection through the shadowsocks server, one per query
+class TunnelUpstream implements IDNSUpstream {
+  public address: string;
+  private pool: UpstreamPool;
+  private host: string;
+  private port: number;
+
+  constructor(address: string, pool: UpstreamPool) {
+    const index = address.lastIndexOf(':');
+    this.address = address;
+    this.pool = pool;
+    this.host = address.slice(0, index).replace(/^\[|\]$/g, '');
+    this.port = Number(address.slice(index + 1));
+  }
+
+  async exchange(query: Buffer, timeout: number) {
+    const { upstream, tunnel } = await this.pool.connect(this.host);
+    const { method, password } = upstream.config;
+    const encryptor = new Encryptor(method, password);
+    const decryptor = new Decryptor(method, password, { requestSalt: encryptor.salt });
+    encryptor.pipe(tunnel);
+    tunnel.pipe(decryptor);
+    encryptor.write(encodeSocks5Head(this.host, this.port));
+
+    const conn = stream.Duplex.from({ readable: decryptor, writable: encryptor });
+    tunnel.on('error', (err) => conn.destroy(err));
+    tunnel.on('close', () => conn.destroy());
+    try {
+      return await exchangeOverStream(conn, query, timeout, this.address);
+    } finally {
+      tunnel.destroy();
+    }
+  }
+}
+
+// one domain per line, dnsmasq server=/domain/ip lines or a gfwlist, whose @@ exceptions are domestic
+function loadDomainList(file: string) {
+  return parseDomainList(fs.readFileSync(file, 'utf8').replace(/^server=\/([^/]+)\/.*$/gm, '$1'));
+}
+
+// the route of the most specific listed domain of a name, domestic_list wins over foreign_list
+function routeMatcher(config: ILocalDNSConfig) {
+  const routes = new Map<string, DNSRoute>();
+  if (config.foreign_list) {
+    const list = loadDomainList(config.foreign_list);
+    for (const domain of list.proxy) routes.set(domain, 'foreign');
+    for (const domain of list.direct) routes.set(domain, 'domestic');
+  }
+  if (config.domestic_list) {
+    const list = loadDomainList(config.domestic_list);
+    for (const domain of [...list.proxy, ...list.direct]) routes.set(domain, 'domestic');
+  }
+
+  const unlisted = config.unlisted || 'foreign';
+  return (name: string): DNSRoute => {
+    let suffix = name;
+    while (true) {
+      const route = routes.get(suffix);
+      if (route) return route;
+      const pos = suffix.indexOf('.');
+      if (pos === -1) return unlisted;
+      suffix = suffix.slice(pos + 1);
+    }
+  };
+}
+
+interface ILocalDNSOptions extends ILocalDNSConfig {
+  address: string;
+  pool: UpstreamPool;
+  logger?: Logger;
+}
+
+// dns server of ss-local on udp and tcp: foreign names are resolved by remote_server through the
+// shadowsocks server, so they are neither seen nor poisoned on the way, domestic ones directly
+export class LocalDNSServer {
+  private address: string;
+  private port: number;
+  private logger: Logger;
+  private route: (name: string) => DNSRoute;
+  private upstreams: Record<DNSRoute, IDNSUpstream[]>;
+  private cache: LRU<string, ICachedAnswer>;
+  private sf: Singleflight;
+  private udp: dgram.Socket;
+  private tcp: net.Server;
+
+  constructor(options: ILocalDNSOptions) {
+    this.address = options.address;
+    this.port = options.port;
+    this.logger = options.logger || logger;
+    this.route = routeMatcher(options);
+    // the system servers come as ip or ip:port
+    const domestic = options.domestic_servers || dns.getServers().map((server) => (net.isIP(server) ? server : `udp://${server}`));
+    this.upstreams = {
+      foreign: [new TunnelUpstream(options.remote_server || '8.8.8.8:53', options.pool)],
+      domestic: domestic.map(parseUpstream),
+    };
+    this.cache = new LRU({ max: 10000 });
+    this.sf = new Singleflight();
+    this.udp = dgram.createSocket(net.isIPv6(this.address) ? 'udp6' : 'udp4');
+    this.tcp = net.createServer((socket) => this.handleTCP(socket));
+  }
+
+  // the response to query, null when it is not a query
+  async answer(query: Buffer): Promise<Buffer> {
+    let message: IMessage;
+    try {
+      message = decodeMessage(query);
+    } catch (err) {
+      this.logger.warn('invalid dns query:', err.message);
+      return null;
+    }
+    if (message.response || message.questions.length !== 1) return null;
+
+    const question = message.questions[0];
+    const name = question.name.toLowerCase();
+    const route = this.route(name);
+    this.logger.debug('query %s type %d, %s', name, question.type, route);
+
+    try {
+      if (!CACHED_TYPES.includes(question.type)) return await this.exchange(route, query);
+
+      const key = `${route} ${question.type} ${name}`;
+      const cached = this.cache.get(key) || (await this.sf.do(key, () => this.lookup(route, query, key)));
+      const elapsed = Math.floor((Date.now() - cached.time) / 1000);
+      const answers = cached.answers.map((answer) => ({ ...answer, ttl: Math.max(answer.ttl - elapsed, 0) }));
+      return encodeResponse(message.id, question, cached.rcode, answers);
+    } catch (err) {
+      this.logger.warn('query %s failed: %s', name, err.message);
+      return encodeResponse(message.id, question, RCODE_SERVFAIL, []);
+    }
+  }
+
+  // the upstreams of route in order, the next one when one fails
+  private async exchange(route: DNSRoute, query: Buffer) {
+    let lastError: Error;
+    for (const upstream of this.upstreams[route]) {
+      try {
+        return await upstream.exchange(query, TIMEOUT * 1000);
+      } catch (err) {
+        lastError = err;
+      }
+    }
+    throw lastError || new Error(`no ${route} dns server`);
+  }
+
+  // names that do not exist and empty answers are cached for NEGATIVE_TTL
+  private async lookup(route: DNSRoute, query: Buffer, key: string): Promise<ICachedAnswer> {
+    const response = decodeMessage(await this.exchange(route, query));
+    if (response.rcode !== RCODE_NOERROR && response.rcode !== RCODE_NXDOMAIN) {
+      throw new Error(`dns server answered rcode ${response.rcode}`);
+    }
+
+    const answers = response.answers.filter((answer) => CACHED_TYPES.includes(answer.type));
+    const cached = { rcode: response.rcode, answers, time: Date.now() };
+    const ttl = answers.length ? Math.min(...answers.map((answer) => answer.ttl)) : NEGATIVE_TTL;
+    if (ttl > 0) this.cache.set(key, cached, { ttl: ttl * 1000 });
+    return cached;
+  }
+
+  // length prefixed messages, answered in the order they complete
+  private handleTCP(socket: net.Socket) {
+    let received = Buffer.alloc(0);
+    socket.setTimeout(IDLE_TIMEOUT * 1000, () => socket.destroy());
+    socket.on('error', (err) => {
+      this.logger.warn('dns tcp client error:', err.message);
+    });
+    socket.on('data', (chunk: Buffer) => {
+      received = Buffer.concat([received, chunk]);
+      while (received.length >= 2 && received.length >= 2 + received.readUInt16BE(0)) {
+        const query = received.slice(2, 2 + received.readUInt16BE(0));
+        received = received.slice(2 + query.length);
+        this.answer(query).then((response) => {
+          if (!response) return socket.destroy();
+          if (socket.destroyed) return;
+          const length = Buffer.allocUnsafe(2);
+          length.writeUInt16BE(response.length);
+          socket.write(Buffer.concat([length, response]));
+        });
+      }
+    });
+  }
+
+  public start() {
+    this.udp.on('message', async (msg, rinfo) => {
+      const response = await this.answer(msg);
+      if (response) this.udp.send(response, rinfo.port, rinfo.address);
+    });
+    this.udp.on('error', (err) => {
+      this.logger.error('dns udp server error:', err);
+    });
+    this.udp.bind(this.port, this.address, () => {
+      this.logger.info('dns server listen at %s', this.port);
+    });
+
+    this.tcp.on('error', (err) => {
+      this.logger.error('dns tcp server error:', err);
+    });
+    this.tcp.listen(this.port, this.address);
+  }
+
+  public close() {
+    this.udp.close();
+    this.tcp.close();
+  }
+}
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type RotateInterval = 'hourly' | 'daily';
+
+export interface IRotateOptions {
+  // bytes, rotate before the file would grow past it
+  max_size?: number;
+  // rotate when the hour or day changes
+  interval?: RotateInterval;
+  // rotated files kept, default 7
+  keep?: number;
+}
+
+const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+
+// local time, e.g. 2022-04-10 08 for hourly
+function periodOf(interval: RotateInterval, date: Date) {
+  if (!interval) return '';
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return interval === 'hourly' ? `${day} ${pad(date.getHours())}` : day;
+}
+
+// suffix of rotated files, sorts in the order they were rotated
+function stampOf(date: Date) {
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}-${pad(date.getMilliseconds(), 3)}`
+  );
+}
+
+// appends lines to a file, renamed to file.<time> on rotation; writes are
+// synchronous so nothing is lost when the process exits
+export class RotatingFile {
+  private file: string;
+  private options: IRotateOptions;
+  private fd: number;
+  private size: number;
+  private period: string;
+
+  constructor(file: string, options: IRotateOptions = {}) {
+    this.file = path.resolve(file);
+    this.options = options;
+    this.fd = null;
+    this.open();
+  }
+
+  private open() {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    this.fd = fs.openSync(this.file, 'a');
+    const stat = fs.fstatSync(this.fd);
+    this.size = stat.size;
+    // a file left from an earlier period is rotated on the first write
+    this.period = periodOf(this.options.interval, this.size ? stat.mtime : new Date());
+  }
+
+  write(line: string) {
+    const length = Buffer.byteLength(line);
+    const { max_size, interval } = this.options;
+    if ((max_size && this.size && this.size + length > max_size) || periodOf(interval, new Date()) !== this.period) {
+      this.rotate();
+    }
+    fs.writeSync(this.fd, line);
+    this.size += length;
+  }
+
+  private rotate() {
+    fs.closeSync(this.fd);
+    try {
+      fs.renameSync(this.file, `${this.file}.${stampOf(new Date())}`);
+      this.prune();
+    } catch (err) {
+      console.error(`rotate ${this.file} failed: ${err.message}`);
+    }
+    this.open();
+  }
+
+  // removes the oldest rotated files beyond keep
+  private prune() {
+    const dir = path.dirname(this.file);
+    const prefix = path.basename(this.file) + '.';
+    const rotated = fs
+      .readdirSync(dir)
+      .filter((name) => name.startsWith(prefix) && /^\d{8}-\d{6}-\d{3}$/.test(name.slice(prefix.length)))
+      .sort();
+    const keep = this.options.keep ?? 7;
+    for (const name of rotated.slice(0, Math.max(0, rotated.length - keep))) {
+      fs.unlinkSync(path.join(dir, name));
+    }
+  }
+}
@@ -1,3 +1,7 @@
+import * as util from 'util';
+import { IConfig } from './config';
+import { RotatingFile } from './log-file';
+
 export function dateFormat(date: Date): string {
   const year = date.getFullYear();
   const month = (date.getMonth() + 1).toString().padStart(2, '0');
@@ -11,6 +15,58 @@ export function dateFormat(date: Date): string {
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+export type LogFormat = 'text' | 'json';
+
+// extra fields of json records, e.g. conn_id, user and dest of a connection
+export type LogFields = Record<string, string | number>;
+
+// shared by every logger, set from the config by configureLogging
+const settings = {
+  level: 'debug' as LogLevel,
+  format: 'text' as LogFormat,
+  file: null as RotatingFile,
+  accessLog: null as RotatingFile,
+};
+
+export function configureLogging(options: Pick<IConfig, 'log_level' | 'log_format' | 'log_file' | 'log_rotate' | 'access_log'>) {
+  settings.level = options.log_level || 'debug';
+  settings.format = options.log_format || 'text';
+  settings.file = options.log_file ? new RotatingFile(options.log_file, options.log_rotate) : null;
+  settings.accessLog = options.access_log ? new RotatingFile(options.access_log, options.log_rotate) : null;
+}
+
+function writeLine(file: RotatingFile, line: string) {
+  if (file) {
+    file.write(line + '\n');
+  } else {
+    console.info(line);
+  }
+}
+
+export interface IAccessRecord {
+  conn_id: number;
+  user?: string;
+  client: string;
+  dest: string;
+  // the server of ss-local or direct
+  via?: string;
+  bytes_up: number;
+  bytes_down: number;
+  duration_ms: number;
+}
+
+// a connection that ended, dropped unless access_log is set
+export function accessLog(record: IAccessRecord) {
+  if (!settings.accessLog) return;
+  const time = new Date();
+  if (settings.format === 'json') {
+    writeLine(settings.accessLog, JSON.stringify({ time: time.toISOString(), ...record }));
+  } else {
+    const pairs = Object.entries(record).map(([key, value]) => `${key}=${value ?? '-'}`);
+    writeLine(settings.accessLog, `${dateFormat(time)} ${pairs.join(' ')}`);
+  }
+}
+
 export class Logger {
   private static levelEnum = {
     debug: 0,
@@ -20,22 +76,46 @@ export class Logger {
   };
 
   private prefix: string;
+  private fields: LogFields;
   public silent = false;
-  public level: LogLevel = 'debug';
+  // this logger only, log_level of the config otherwise
+  public level: LogLevel = null;
 
-  constructor(prefix: string) {
+  constructor(prefix: string, fields: LogFields = {}) {
     this.prefix = prefix;
+    this.fields = fields;
+  }
+
+  // logger with a tag appended to the prefix, e.g. the user of a connection
+  public child(tag: string, fields: LogFields = {}) {
+    const logger = new Logger(`${this.prefix}:${tag}`, { ...this.fields, ...fields });
+    logger.silent = this.silent;
+    logger.level = this.level;
+    return logger;
+  }
+
+  // same prefix, more fields in json records
+  public with(fields: LogFields) {
+    const logger = new Logger(this.prefix, { ...this.fields, ...fields });
+    logger.silent = this.silent;
+    logger.level = this.level;
+    return logger;
   }
 
   private log(level: LogLevel, message?: any, ...args: any[]) {
     if (this.silent) return;
-    if (Logger.levelEnum[this.level] > Logger.levelEnum[level]) return;
+    if (Logger.levelEnum[this.level || settings.level] > Logger.levelEnum[level]) return;
 
-    if (message && typeof message === 'string') {
-      console.info(`${dateFormat(new Date())} [${this.prefix}] [${level}] ${message}`, ...args);
+    const time = new Date();
+    let line: string;
+    if (settings.format === 'json') {
+      line = JSON.stringify({ time: time.toISOString(), level, logger: this.prefix, msg: util.format(message, ...args), ...this.fields });
+    } else if (message && typeof message === 'string') {
+      line = util.format(`${dateFormat(time)} [${this.prefix}] [${level}] ${message}`, ...args);
     } else {
-      console.info(`${dateFormat(new Date())} [${this.prefix}] [${level}]`, message, ...args);
+      line = util.format(`${dateFormat(time)} [${this.prefix}] [${level}]`, message, ...args);
     }
+    writeLine(settings.file, line);
   }
 
   public debug(message?: any, ...args: any[]) {
@@ -0,0 +1,197 @@
+import * as http from 'http';
+import { Logger } from './logger';
+import { SaltReplayError } from './salt-filter';
+import { userStats } from './stats';
+import { UnknownUserError } from './users';
+
+const logger = new Logger('metrics');
+
+type Labels = Record<string, string>;
+
+function escape(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escape(String(value))}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+// every metric created, in the order rendered
+const registry: Metric[] = [];
+
+// a value per label set, rendered in the prometheus text format
+abstract class Metric {
+  public name: string;
+  private help: string;
+  private type: string;
+
+  constructor(name: string, help: string, type: string) {
+    this.name = name;
+    this.help = help;
+    this.type = type;
+    registry.push(this);
+  }
+
+  render() {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+
+  protected abstract samples(): string[];
+}
+
+export class Counter extends Metric {
+  private values: Map<string, { labels: Labels; value: number }>;
+
+  constructor(name: string, help: string, type = 'counter') {
+    super(name, help, type);
+    this.values = new Map();
+  }
+
+  inc(labels: Labels = {}, n = 1) {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += n;
+    } else {
+      this.values.set(key, { labels, value: n });
+    }
+  }
+
+  protected samples() {
+    return [...this.values.entries()].map(([key, { value }]) => `${this.name}${key} ${value}`);
+  }
+}
+
+export class Gauge extends Counter {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  dec(labels: Labels = {}, n = 1) {
+    this.inc(labels, -n);
+  }
+}
+
+// seconds by default
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class Histogram extends Metric {
+  private buckets: number[];
+  private values: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>;
+
+  constructor(name: string, help: string, buckets = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+    this.buckets = buckets;
+    this.values = new Map();
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = formatLabels(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  // observes the seconds since start, a Date.now()
+  since(labels: Labels, start: number) {
+    this.observe(labels, (Date.now() - start) / 1000);
+  }
+
+  protected samples() {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, i) => lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`));
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+// traffic of userStats, kept there for ss-manager and read when rendered
+class UserTraffic extends Metric {
+  private field: 'connections' | 'bytes';
+
+  constructor(name: string, help: string, field: 'connections' | 'bytes') {
+    super(name, help, 'counter');
+    this.field = field;
+  }
+
+  protected samples() {
+    const lines: string[] = [];
+    for (const [user, stat] of userStats.entries()) {
+      if (this.field === 'connections') {
+        lines.push(`${this.name}${formatLabels({ user })} ${stat.connections}`);
+      } else {
+        lines.push(`${this.name}${formatLabels({ user, direction: 'up' })} ${stat.bytesUp}`);
+        lines.push(`${this.name}${formatLabels({ user, direction: 'down' })} ${stat.bytesDown}`);
+      }
+    }
+    return lines;
+  }
+}
+
+export const connectionsActive = new Gauge('ss_connections_active', 'Open client connections.');
+export const connectionsTotal = new Counter('ss_connections_total', 'Accepted client connections.');
+export const connectionsRejected = new Counter('ss_connections_rejected_total', 'Connections refused by max_connections of the listener or of the user.');
+new UserTraffic('ss_user_connections_total', 'Connections of each user of the server.', 'connections');
+new UserTraffic('ss_user_bytes_total', 'Bytes from (up) and to (down) the remote for each user of the server, tcp and udp.', 'bytes');
+export const upstreamBytes = new Counter('ss_upstream_bytes_total', 'Bytes ss-local sent (up) and received (down) through each server, or direct.');
+export const handshakeFailures = new Counter('ss_handshake_failures_total', 'Server connections failing the handshake by reason, likely probes.');
+export const decryptFailures = new Counter('ss_decrypt_failures_total', 'Decryption errors after the handshake by reason.');
+export const dnsLookupSeconds = new Histogram('ss_dns_lookup_seconds', 'Latency of dns lookups, cache hits included.');
+export const upstreamConnectSeconds = new Histogram('ss_upstream_connect_seconds', 'Time ss-local takes to connect to each server, or direct.');
+export const remoteConnectSeconds = new Histogram('ss_remote_connect_seconds', 'Time the server takes to connect to destinations.');
+export const timeouts = new Counter('ss_timeouts_total', 'Idle timeouts by side: client, remote or tunnel.');
+export const errors = new Counter('ss_errors_total', 'Socket errors by code, such as ECONNRESET or ETIMEDOUT.');
+
+export function countError(err: Error) {
+  errors.inc({ code: (err as NodeJS.ErrnoException).code || err.name });
+}
+
+// label of a handshake or decryption failure
+export function failureReason(err: Error) {
+  if (err instanceof SaltReplayError) return 'replay';
+  if (err instanceof UnknownUserError) return 'unknown_user';
+  if (err.message.includes('authenticate')) return 'bad_tag';
+  if (err.message.includes('timestamp')) return 'timestamp';
+  if (err.message.startsWith('closed')) return 'closed';
+  return 'invalid_data';
+}
+
+export function renderMetrics() {
+  return registry.map((metric) => metric.render()).join('\n') + '\n';
+}
+
+// GET /metrics on host:port
+export function serveMetrics(address: string, log = logger) {
+  const index = address.lastIndexOf(':');
+  const host = address.slice(0, index).replace(/^\[|\]$/g, '');
+  const port = Number(address.slice(index + 1));
+
+  const server = http.createServer((req, res) => {
+    if (req.method !== 'GET' || req.url.split('?')[0] !== '/metrics') {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+    res.end(renderMetrics());
+  });
+  server.on('error', (err) => {
+    log.error('metrics server error:', err);
+  });
+  server.listen(port, host, () => {
+    log.info('metrics listen at http://%s/metrics', address);
+  });
+  return server;
+}
@@ -0,0 +1,222 @@
+import * as stream from 'stream';
+import { EventEmitter } from 'events';
+import { WebSocket } from 'ws';
+
+// websocket subprotocol asked for by the client, the server multiplexes the connection when agreed
+export const MUX_PROTOCOL = 'ss-mux';
+
+// each websocket message is one frame: type(1) + stream id(4) + payload
+const enum FrameType {
+  Open = 0,
+  Data = 1,
+  // no more data from the sender, like a tcp fin
+  Close = 2,
+  // abort the stream in both directions
+  Reset = 3,
+  // payload is a uint32 of bytes the receiver consumed, the sender may send that much more
+  WindowUpdate = 4,
+}
+
+const HEADER_SIZE = 5;
+const MAX_FRAME_SIZE = 32 * 1024;
+// bytes a stream may send before the receiver acknowledges them
+const INITIAL_WINDOW = 256 * 1024;
+// acknowledge consumed bytes in batches
+const WINDOW_UPDATE_THRESHOLD = INITIAL_WINDOW / 4;
+// ms, the session is pinged this often and closed when a ping goes unanswered until the next one
+const KEEPALIVE_INTERVAL = 30 * 1000;
+
+export class MuxStream extends stream.Duplex {
+  public id: number;
+  private session: MuxSession;
+  private sendWindow: number;
+  private pendingWrite: { chunk: Buffer; callback: (err?: Error) => void };
+  private unacked: number;
+  private localClosed: boolean;
+  private remoteClosed: boolean;
+  private remoteReset: boolean;
+
+  constructor(session: MuxSession, id: number) {
+    super({ allowHalfOpen: true });
+    this.session = session;
+    this.id = id;
+    this.sendWindow = INITIAL_WINDOW;
+    this.pendingWrite = null;
+    this.unacked = 0;
+    this.localClosed = false;
+    this.remoteClosed = false;
+    this.remoteReset = false;
+  }
+
+  // sends as much of the pending chunk as the window allows, the write completes when all is sent
+  private flushWrite() {
+    const pending = this.pendingWrite;
+    if (!pending) return;
+
+    while (pending.chunk.length && this.sendWindow > 0) {
+      const size = Math.min(pending.chunk.length, this.sendWindow, MAX_FRAME_SIZE);
+      this.session.send(FrameType.Data, this.id, pending.chunk.subarray(0, size));
+      pending.chunk = pending.chunk.subarray(size);
+      this.sendWindow -= size;
+    }
+
+    if (!pending.chunk.length) {
+      this.pendingWrite = null;
+      pending.callback();
+    }
+  }
+
+  private ack() {
+    if (this.unacked < WINDOW_UPDATE_THRESHOLD || this.destroyed) return;
+    const payload = Buffer.alloc(4);
+    payload.writeUInt32BE(this.unacked);
+    this.session.send(FrameType.WindowUpdate, this.id, payload);
+    this.unacked = 0;
+  }
+
+  _write(chunk: Buffer, _encoding: BufferEncoding, callback: (err?: Error) => void) {
+    this.pendingWrite = { chunk, callback };
+    this.flushWrite();
+  }
+
+  _final(callback: (err?: Error) => void) {
+    this.localClosed = true;
+    this.session.send(FrameType.Close, this.id);
+    callback();
+  }
+
+  // the consumer wants more, what it has read so far can be acknowledged
+  _read() {
+    this.ack();
+  }
+
+  _destroy(err: Error, callback: (err?: Error) => void) {
+    if (!this.remoteReset && !(this.localClosed && this.remoteClosed)) {
+      this.session.send(FrameType.Reset, this.id);
+    }
+    this.session.remove(this.id);
+    callback(err);
+  }
+
+  // frames from the session
+
+  onFrame(type: FrameType, payload: Buffer) {
+    switch (type) {
+      case FrameType.Data:
+        this.unacked += payload.length;
+        // the peer sent more than it was allowed to, its data would pile up here
+        if (this.unacked > INITIAL_WINDOW) {
+          this.destroy(new Error('mux stream window exceeded'));
+          break;
+        }
+        if (this.push(payload)) this.ack();
+        break;
+      case FrameType.Close:
+        this.remoteClosed = true;
+        this.push(null);
+        break;
+      // like a websocket closed by the peer, a close without error
+      case FrameType.Reset:
+        this.remoteReset = true;
+        this.destroy();
+        break;
+      case FrameType.WindowUpdate:
+        if (payload.length !== 4) {
+          this.destroy(new Error('malformed mux window update'));
+          break;
+        }
+        this.sendWindow += payload.readUInt32BE(0);
+        this.flushWrite();
+        break;
+    }
+  }
+}
+
+// streams over one websocket, opened by the client side with open(),
+// the server side gets them from the 'stream' event
+export class MuxSession extends EventEmitter {
+  private ws: WebSocket;
+  private streams: Map<number, MuxStream>;
+  private nextId: number;
+  private alive: boolean;
+  private keepalive: NodeJS.Timeout;
+
+  constructor(ws: WebSocket) {
+    super();
+    this.ws = ws;
+    this.streams = new Map();
+    this.nextId = 1;
+    this.alive = true;
+
+    // a peer gone without a close would keep every stream open, websocket pings find out
+    this.keepalive = setInterval(() => {
+      if (!this.alive) {
+        ws.terminate();
+        return;
+      }
+      this.alive = false;
+      if (ws.readyState === WebSocket.OPEN) ws.ping();
+    }, KEEPALIVE_INTERVAL);
+
+    ws.on('pong', () => (this.alive = true));
+    ws.on('message', (data: Buffer) => {
+      this.alive = true;
+      this.onMessage(data);
+    });
+    ws.on('close', () => {
+      clearInterval(this.keepalive);
+      for (const muxStream of this.streams.values()) muxStream.destroy(new Error('mux session closed'));
+      this.streams.clear();
+      this.emit('close');
+    });
+    // close follows
+    ws.on('error', (err) => this.emit('error', err));
+  }
+
+  open() {
+    const id = this.nextId++;
+    const muxStream = new MuxStream(this, id);
+    this.streams.set(id, muxStream);
+    this.send(FrameType.Open, id);
+    return muxStream;
+  }
+
+  send(type: FrameType, id: number, payload?: Buffer) {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+    const header = Buffer.alloc(HEADER_SIZE);
+    header.writeUInt8(type, 0);
+    header.writeUInt32BE(id, 1);
+    this.ws.send(payload ? Buffer.concat([header, payload]) : header);
+  }
+
+  remove(id: number) {
+    this.streams.delete(id);
+  }
+
+  // a frame that cannot be handled closes this session only, not the process
+  private onMessage(data: Buffer) {
+    try {
+      this.onFrame(data);
+    } catch (err) {
+      this.emit('error', err);
+      this.ws.terminate();
+    }
+  }
+
+  private onFrame(data: Buffer) {
+    if (data.length < HEADER_SIZE) return;
+    const type = data.readUInt8(0) as FrameType;
+    const id = data.readUInt32BE(1);
+
+    if (type === FrameType.Open) {
+      if (this.streams.has(id)) return;
+      const muxStream = new MuxStream(this, id);
+      this.streams.set(id, muxStream);
+      this.emit('stream', muxStream);
+      return;
+    }
+
+    // frames of streams already gone are dropped
+    this.streams.get(id)?.onFrame(type, data.subarray(HEADER_SIZE));
+  }
+}
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+
+interface IDomainList {
+  proxy: string[];
+  direct: string[];
+}
+
+const domainRegex = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+// hostname of a gfwlist (AutoProxy) pattern, e.g. ||google.com, |http://a.b.com/path, .example.org
+function hostOfPattern(pattern: string) {
+  const host = pattern
+    .replace(/^\|\|?/, '')
+    .replace(/^https?:\/\//, '')
+    .replace(/^\*?\./, '')
+    .split(/[/*:?^]/)[0]
+    .toLowerCase();
+  return domainRegex.test(host) ? host : null;
+}
+
+// plain domain list (one per line) or gfwlist, which may be base64 encoded
+export function parseDomainList(content: string): IDomainList {
+  const trimmed = content.trim();
+  if (/^[A-Za-z0-9+/=\s]+$/.test(trimmed) && !trimmed.includes('.')) {
+    content = Buffer.from(trimmed, 'base64').toString('utf8');
+  }
+
+  const proxy = new Set<string>();
+  const direct = new Set<string>();
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    // comments, [AutoProxy x.x] header and /regex/ rules
+    if (!line || line.startsWith('!') || line.startsWith('#') || line.startsWith('[') || line.startsWith('/')) continue;
+
+    if (line.startsWith('@@')) {
+      const host = hostOfPattern(line.slice(2));
+      if (host) direct.add(host);
+    } else {
+      const host = hostOfPattern(line);
+      if (host) proxy.add(host);
+    }
+  }
+
+  return { proxy: [...proxy], direct: [...direct] };
+}
+
+const toMap = (domains: string[]) => JSON.stringify(Object.fromEntries(domains.map((domain) => [domain, 1])));
+
+// FindProxyForURL matching the host and each of its parent domains
+export function generatePAC(list: IDomainList, proxy: string) {
+  return `var proxy = ${JSON.stringify(proxy)};
+var direct = 'DIRECT';
+var proxyDomains = ${toMap(list.proxy)};
+var directDomains = ${toMap(list.direct)};
+var hasOwnProperty = Object.prototype.hasOwnProperty;
+
+function FindProxyForURL(url, host) {
+  var suffix = host.toLowerCase();
+  var pos;
+  while (true) {
+    if (hasOwnProperty.call(directDomains, suffix)) return direct;
+    if (hasOwnProperty.call(proxyDomains, suffix)) return proxy;
+    pos = suffix.indexOf('.');
+    if (pos === -1) return direct;
+    suffix = suffix.substring(pos + 1);
+  }
+}
+`;
+}
+
+export function loadPAC(options: { file?: string; domains?: string[]; proxy: string }) {
+  const list = options.file ? parseDomainList(fs.readFileSync(options.file, 'utf8')) : { proxy: [], direct: [] };
+  if (options.domains) list.proxy.push(...options.domains.map((domain) => domain.toLowerCase()));
+  return generatePAC(list, options.proxy);
+}
@@ -0,0 +1,107 @@
+import * as childProcess from 'child_process';
+import * as net from 'net';
+import { Logger } from './logger';
+
+const logger = new Logger('plugin');
+
+// wait before restarting a plugin that exited
+const RESTART_DELAY = 1000;
+
+// a port nobody listens on right now, for the plugin or ss-server behind it
+export function getFreePort(host = '127.0.0.1'): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, host, () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+// running plugins, killed when the process exits
+const running = new Set<Plugin>();
+let exitHandled = false;
+
+// SIGINT and SIGTERM end in process.exit through handleShutdown of connections.ts,
+// without it the process would die on them without emitting exit
+function killOnExit() {
+  if (exitHandled) return;
+  exitHandled = true;
+  process.on('exit', () => {
+    for (const plugin of running) plugin.stop();
+  });
+}
+
+interface IPluginOptions {
+  plugin: string;
+  plugin_opts?: string;
+  // on ss-local the server, on ss-server the public address the plugin listens on
+  remoteHost: string;
+  remotePort: number;
+  // on ss-local where the plugin listens, on ss-server where ss-server listens
+  localHost: string;
+  localPort: number;
+  logger?: Logger;
+}
+
+// SIP003 plugin process, restarted when it exits until stopped
+export class Plugin {
+  private options: IPluginOptions;
+  private logger: Logger;
+  private child: childProcess.ChildProcess;
+  private stopped: boolean;
+  private restartTimer: NodeJS.Timeout;
+
+  constructor(options: IPluginOptions) {
+    this.options = options;
+    this.logger = options.logger || logger;
+    this.child = null;
+    this.stopped = false;
+    this.restartTimer = null;
+  }
+
+  public start() {
+    killOnExit();
+    running.add(this);
+    this.spawn();
+  }
+
+  private spawn() {
+    const { plugin, plugin_opts, remoteHost, remotePort, localHost, localPort } = this.options;
+    const child = (this.child = childProcess.spawn(plugin, [], {
+      env: {
+        ...process.env,
+        SS_REMOTE_HOST: remoteHost,
+        SS_REMOTE_PORT: String(remotePort),
+        SS_LOCAL_HOST: localHost,
+        SS_LOCAL_PORT: String(localPort),
+        SS_PLUGIN_OPTIONS: plugin_opts || '',
+      },
+      stdio: ['ignore', 'inherit', 'inherit'],
+    }));
+    child.once('spawn', () => {
+      this.logger.info('plugin %s started, pid %d, local %s:%d', plugin, child.pid, localHost, localPort);
+    });
+
+    // spawn failures such as a missing executable are not retried
+    child.on('error', (err) => {
+      this.logger.error('plugin %s error:', plugin, err);
+    });
+
+    child.on('exit', (code, signal) => {
+      if (this.child === child) this.child = null;
+      if (this.stopped) return;
+
+      this.logger.warn('plugin %s exited with %s, restarting', plugin, signal || code);
+      this.restartTimer = setTimeout(() => this.spawn(), RESTART_DELAY);
+    });
+  }
+
+  public stop() {
+    this.stopped = true;
+    running.delete(this);
+    clearTimeout(this.restartTimer);
+    this.child?.kill();
+  }
+}
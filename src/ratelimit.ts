@@ -0,0 +1,151 @@
+import * as stream from 'stream';
+import { IConfig, IRateLimit, Role } from './config';
+import { readConfig } from './cli';
+import { Logger } from './logger';
+
+export class TokenBucket {
+  // bytes per second, 0 for unlimited
+  private rate: number;
+  private tokens: number;
+  private last: number;
+
+  constructor(rate = 0) {
+    this.rate = rate;
+    this.tokens = 0;
+    this.last = Date.now();
+  }
+
+  setRate(rate = 0) {
+    this.rate = rate;
+  }
+
+  // takes n bytes, returns how many ms to wait before sending them;
+  // tokens go negative so that concurrent takers queue up behind each other
+  take(n: number) {
+    if (!this.rate) return 0;
+
+    const now = Date.now();
+    // at most one second of burst
+    this.tokens = Math.min(this.rate, this.tokens + ((now - this.last) / 1000) * this.rate);
+    this.last = now;
+    this.tokens -= n;
+    return this.tokens >= 0 ? 0 : (-this.tokens / this.rate) * 1000;
+  }
+}
+
+// passes chunks on once every bucket allows them, the write callback is held
+// meanwhile so that backpressure slows the source instead of buffering
+export class Throttle extends stream.Transform {
+  private buckets: TokenBucket[];
+
+  constructor(buckets: TokenBucket[]) {
+    super();
+    this.buckets = buckets;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: stream.TransformCallback) {
+    const wait = Math.max(0, ...this.buckets.map((bucket) => bucket.take(chunk.length)));
+    if (!wait) return callback(null, chunk);
+    setTimeout(() => callback(null, chunk), wait);
+  }
+}
+
+interface IBuckets {
+  upload: TokenBucket;
+  download: TokenBucket;
+}
+
+const bucketsOf = (limit: IRateLimit = {}): IBuckets => ({ upload: new TokenBucket(limit.upload), download: new TokenBucket(limit.download) });
+
+function setRates(buckets: IBuckets, limit: IRateLimit = {}) {
+  buckets.upload.setRate(limit.upload);
+  buckets.download.setRate(limit.download);
+}
+
+export interface IRateLimits {
+  // shared by every connection
+  global?: IRateLimit;
+  // shared by the connections of one user
+  users?: Record<string, IRateLimit>;
+  // each connection on its own
+  connection?: IRateLimit;
+}
+
+// limits of the config, users are server users or local_users of ss-local
+export function rateLimitsOf(config: IConfig): IRateLimits {
+  const users: Record<string, IRateLimit> = {};
+  for (const user of config.users || []) {
+    if (user.rate_limit) users[user.name] = user.rate_limit;
+  }
+  for (const user of config.local_users || []) {
+    if (user.rate_limit) users[user.username] = user.rate_limit;
+  }
+  return { global: config.rate_limit, users, connection: config.connection_rate_limit };
+}
+
+export class RateLimiter {
+  private global: IBuckets;
+  private users: Map<string, IBuckets>;
+  private userLimits: Record<string, IRateLimit>;
+  private connectionLimit: IRateLimit;
+  // buckets of open connections, updated along with the limits
+  private connections: Set<IBuckets>;
+
+  constructor(limits: IRateLimits = {}) {
+    this.global = bucketsOf();
+    this.users = new Map();
+    this.userLimits = {};
+    this.connectionLimit = {};
+    this.connections = new Set();
+    this.update(limits);
+  }
+
+  // applies to open connections too
+  update(limits: IRateLimits) {
+    setRates(this.global, limits.global);
+    this.userLimits = { ...limits.users };
+    for (const [name, buckets] of this.users) setRates(buckets, this.userLimits[name]);
+    this.connectionLimit = limits.connection || {};
+    for (const buckets of this.connections) setRates(buckets, this.connectionLimit);
+  }
+
+  setUserLimit(name: string, limit: IRateLimit) {
+    this.userLimits[name] = limit;
+    setRates(this.userBuckets(name), limit);
+  }
+
+  private userBuckets(name: string) {
+    let buckets = this.users.get(name);
+    if (!buckets) {
+      buckets = bucketsOf(this.userLimits[name]);
+      this.users.set(name, buckets);
+    }
+    return buckets;
+  }
+
+  // throttles of a new connection, release() once it is closed
+  connect(user?: string) {
+    const connection = bucketsOf(this.connectionLimit);
+    this.connections.add(connection);
+    const userBuckets = user ? this.userBuckets(user) : null;
+    const pick = (direction: keyof IBuckets) => [this.global[direction], userBuckets?.[direction], connection[direction]].filter(Boolean);
+
+    return {
+      upload: new Throttle(pick('upload')),
+      download: new Throttle(pick('download')),
+      release: () => this.connections.delete(connection),
+    };
+  }
+}
+
+// kill -HUP re-reads the config and applies its rate limits
+export function reloadRateLimitsOnSighup(role: Role, logger: Logger, apply: (config: IConfig) => void) {
+  process.on('SIGHUP', () => {
+    try {
+      apply(readConfig(role));
+      logger.info('rate limits reloaded');
+    } catch (err) {
+      logger.error('reload rate limits failed:', err.message);
+    }
+  });
+}
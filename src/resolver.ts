@@ -0,0 +1,184 @@
+import * as crypto from 'crypto';
+import * as dns from 'dns/promises';
+import * as net from 'net';
+import * as LRU from 'lru-cache';
+import { Singleflight } from '@zcong/singleflight';
+import { AddressFamily, IConfig, IDNSConfig } from './config';
+import { decodeMessage, encodeQuery, RCODE_NOERROR, RCODE_NXDOMAIN, TYPE_A, TYPE_AAAA } from './dns-packet';
+import { IDNSUpstream, parseUpstream } from './dns-upstream';
+
+interface IRecord {
+  address: string;
+  family: 4 | 6;
+}
+
+// empty records for a name that does not exist
+interface IAnswer {
+  records: IRecord[];
+  // seconds
+  ttl: number;
+}
+
+// seconds answers without a ttl are cached, e.g. names from /etc/hosts
+const DEFAULT_TTL = 60;
+const DEFAULT_NEGATIVE_TTL = 30;
+const DEFAULT_TIMEOUT = 5;
+
+// RFC 8305 section 4: the families take turns, starting with the preferred one
+function sortRecords(records: IRecord[], family: AddressFamily) {
+  const v4 = records.filter((record) => record.family === 4).map((record) => record.address);
+  const v6 = records.filter((record) => record.family === 6).map((record) => record.address);
+  if (family === 'ipv4_only') return v4;
+  if (family === 'ipv6_only') return v6;
+
+  const [first, second] = family === 'ipv6_first' ? [v6, v4] : [v4, v6];
+  const sorted: string[] = [];
+  for (let i = 0; i < Math.max(first.length, second.length); i++) {
+    if (i < first.length) sorted.push(first[i]);
+    if (i < second.length) sorted.push(second[i]);
+  }
+  return sorted;
+}
+
+// "example.com" matches only itself, "*.example.com" its subdomains;
+// exact names win over wildcards, longer wildcards over shorter ones
+function hostsMatcher(hosts: IDNSConfig['hosts'] = {}) {
+  const exact = new Map<string, IRecord[]>();
+  const wildcards: [string, IRecord[]][] = [];
+  for (const [name, value] of Object.entries(hosts)) {
+    const records = (Array.isArray(value) ? value : [value]).map((address) => ({ address, family: net.isIP(address) as 4 | 6 }));
+    const key = name.toLowerCase();
+    if (key.startsWith('*.')) {
+      wildcards.push([key.slice(1), records]);
+    } else {
+      exact.set(key, records);
+    }
+  }
+  wildcards.sort((a, b) => b[0].length - a[0].length);
+  return (name: string) => exact.get(name) || wildcards.find(([suffix]) => name.endsWith(suffix))?.[1] || null;
+}
+
+// rejects with ETIMEOUT when promise takes longer than timeout ms
+function withTimeout<T>(promise: Promise<T>, timeout: number, what: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timedOut = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      const err: NodeJS.ErrnoException = new Error(`${what} timed out`);
+      err.code = 'ETIMEOUT';
+      reject(err);
+    }, timeout);
+  });
+  return Promise.race([promise, timedOut]).finally(() => clearTimeout(timer));
+}
+
+// addresses of destinations: the hosts of the dns config, then the dns servers in order,
+// or the system resolver when there are none; answers are cached for their ttl and names
+// that do not exist for negative_ttl
+export class Resolver {
+  private family: AddressFamily;
+  private hosts: (name: string) => IRecord[];
+  private upstreams: IDNSUpstream[];
+  // ms each dns server, or the system resolver, gets to answer
+  private timeout: number;
+  private negativeTTL: number;
+  private system: dns.Resolver;
+  private cache: LRU<string, IRecord[]>;
+  private sf: Singleflight;
+
+  constructor(config: Pick<IConfig, 'address_family' | 'dns'> = {}) {
+    this.family = config.address_family || 'ipv4_first';
+    this.hosts = hostsMatcher(config.dns?.hosts);
+    this.upstreams = (config.dns?.servers || []).map(parseUpstream);
+    this.timeout = (config.dns?.timeout || DEFAULT_TIMEOUT) * 1000;
+    this.negativeTTL = config.dns?.negative_ttl ?? DEFAULT_NEGATIVE_TTL;
+    this.system = new dns.Resolver({ timeout: this.timeout, tries: 1 });
+    this.cache = new LRU({ max: 1000 });
+    this.sf = new Singleflight();
+  }
+
+  // every address of hostname in the order to connect to them,
+  // empty if it does not exist or has none of the wanted family
+  async resolve(hostname: string): Promise<string[]> {
+    if (net.isIP(hostname)) return [hostname];
+
+    const name = hostname.toLowerCase().replace(/\.$/, '');
+    let records = this.hosts(name) || this.cache.get(name);
+    if (!records) records = await this.sf.do(name, () => this.query(name));
+    return sortRecords(records, this.family);
+  }
+
+  private get wants4() {
+    return this.family !== 'ipv6_only';
+  }
+
+  private get wants6() {
+    return this.family !== 'ipv4_only';
+  }
+
+  private async query(name: string) {
+    const { records, ttl } = this.upstreams.length ? await this.queryUpstreams(name) : await this.querySystem(name);
+    const seconds = records.length ? ttl : this.negativeTTL;
+    if (seconds > 0) this.cache.set(name, records, { ttl: seconds * 1000 });
+    return records;
+  }
+
+  // A and AAAA at once; one of them failing is fine if the other is answered
+  private async queryUpstreams(name: string): Promise<IAnswer> {
+    const types = [this.wants4 && TYPE_A, this.wants6 && TYPE_AAAA].filter(Boolean);
+    const results = await Promise.allSettled(types.map((type) => this.exchange(name, type)));
+    const answered = results.filter((result): result is PromiseFulfilledResult<IAnswer> => result.status === 'fulfilled');
+    if (!answered.length) throw (results[0] as PromiseRejectedResult).reason;
+
+    const records = answered.flatMap((result) => result.value.records);
+    return { records, ttl: Math.min(...answered.map((result) => result.value.ttl)) };
+  }
+
+  // the first server answering with NOERROR or NXDOMAIN, the next one is asked on errors
+  private async exchange(name: string, type: number): Promise<IAnswer> {
+    let lastError: Error;
+    for (const upstream of this.upstreams) {
+      try {
+        const query = encodeQuery(crypto.randomInt(0x10000), name, type);
+        const message = decodeMessage(await upstream.exchange(query, this.timeout));
+        if (message.rcode === RCODE_NXDOMAIN) return { records: [], ttl: this.negativeTTL };
+        if (message.rcode !== RCODE_NOERROR) throw new Error(`dns server ${upstream.address} answered rcode ${message.rcode}`);
+
+        // the cname chain comes along, only the addresses are kept
+        const answers = message.answers.filter((answer) => answer.type === type && answer.data);
+        const records = answers.map((answer) => ({ address: answer.data, family: (type === TYPE_A ? 4 : 6) as 4 | 6 }));
+        return { records, ttl: Math.min(...message.answers.map((answer) => answer.ttl)) };
+      } catch (err) {
+        lastError = err;
+      }
+    }
+    throw lastError;
+  }
+
+  private async querySystem(name: string): Promise<IAnswer> {
+    const [a, aaaa] = await Promise.allSettled([
+      this.wants4 ? this.system.resolve4(name, { ttl: true }) : [],
+      this.wants6 ? this.system.resolve6(name, { ttl: true }) : [],
+    ]);
+
+    const records: IRecord[] = [];
+    let ttl = Infinity;
+    for (const [result, family] of [[a, 4], [aaaa, 6]] as const) {
+      if (result.status === 'rejected') continue;
+      for (const record of result.value) {
+        records.push({ address: record.address, family });
+        ttl = Math.min(ttl, record.ttl);
+      }
+    }
+    if (records.length) return { records, ttl };
+
+    // not in dns, the system resolver also knows /etc/hosts
+    const family = this.wants4 && this.wants6 ? 0 : this.wants4 ? 4 : 6;
+    try {
+      const found = await withTimeout(dns.lookup(name, { all: true, family }), this.timeout, `lookup ${name}`);
+      return { records: found.map(({ address, family }) => ({ address, family: family as 4 | 6 })), ttl: DEFAULT_TTL };
+    } catch (err) {
+      if (err.code === 'ENOTFOUND') return { records: [], ttl: this.negativeTTL };
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import { Resolver } from './resolver';
+import { Address } from './utils';
+
+export type RuleAction = 'direct' | 'proxy' | 'reject';
+
+const actions: RuleAction[] = ['direct', 'proxy', 'reject'];
+
+interface IRule {
+  type: string;
+  value: string;
+  action: RuleAction;
+  // ip rules match the ips of the destination, resolved from its domain unless no-resolve
+  ip: boolean;
+  resolve: boolean;
+  match: (address: Address, ips: string[]) => boolean;
+}
+
+function ipOf(address: Address) {
+  if (address.type !== 'domain') return address.host;
+  if (net.isIP(address.domain)) return address.domain;
+  return null;
+}
+
+function domainOf(address: Address) {
+  if (address.type !== 'domain' || net.isIP(address.domain)) return null;
+  return address.domain.toLowerCase();
+}
+
+function cidrMatcher(value: string, family: 'ipv4' | 'ipv6') {
+  const [network, prefix] = value.split('/');
+  const blockList = new net.BlockList();
+  blockList.addSubnet(network, Number(prefix ?? (family === 'ipv4' ? 32 : 128)), family);
+  const version = family === 'ipv4' ? 4 : 6;
+  return (_address: Address, ips: string[]) => ips.some((ip) => net.isIP(ip) === version && blockList.check(ip, family));
+}
+
+function createMatcher(type: string, value: string): (address: Address, ips: string[]) => boolean {
+  switch (type) {
+    case 'DOMAIN':
+      value = value.toLowerCase();
+      return (address) => domainOf(address) === value;
+    case 'DOMAIN-SUFFIX':
+      value = value.toLowerCase();
+      return (address) => {
+        const domain = domainOf(address);
+        return !!domain && (domain === value || domain.endsWith('.' + value));
+      };
+    case 'DOMAIN-KEYWORD':
+      value = value.toLowerCase();
+      return (address) => !!domainOf(address)?.includes(value);
+    case 'DOMAIN-REGEX': {
+      const regex = new RegExp(value, 'i');
+      return (address) => {
+        const domain = domainOf(address);
+        return !!domain && regex.test(domain);
+      };
+    }
+    case 'IP-CIDR':
+      return cidrMatcher(value, 'ipv4');
+    case 'IP-CIDR6':
+      return cidrMatcher(value, 'ipv6');
+    case 'DST-PORT': {
+      // 443 or 8000-9000
+      const [from, to] = value.split('-').map(Number);
+      return (address) => address.port >= from && address.port <= (to ?? from);
+    }
+    default:
+      throw new Error(`unknown rule type ${type}`);
+  }
+}
+
+// rules file, one rule per line, first match wins:
+//   DOMAIN-SUFFIX,google.com,proxy
+//   DOMAIN-KEYWORD,baidu,direct
+//   DOMAIN-REGEX,^ads?\.,reject
+//   IP-CIDR,192.168.0.0/16,direct
+//   IP-CIDR6,fd00::/8,direct,no-resolve
+//   DST-PORT,25,reject
+//   FINAL,proxy
+// the domain of a destination is resolved when it reaches the first ip rule without no-resolve
+export class Rules {
+  private rules: IRule[];
+  private finalAction: RuleAction;
+
+  constructor(rules: IRule[], finalAction: RuleAction = 'proxy') {
+    this.rules = rules;
+    this.finalAction = finalAction;
+  }
+
+  static parse(content: string) {
+    const rules: IRule[] = [];
+    let finalAction: RuleAction = 'proxy';
+
+    content.split(/\r?\n/).forEach((raw, index) => {
+      const line = raw.trim();
+      if (!line || line.startsWith('#')) return;
+
+      const fields = line.split(',').map((field) => field.trim());
+      const type = fields[0].toUpperCase();
+      const ip = type === 'IP-CIDR' || type === 'IP-CIDR6';
+      const resolve = !(ip && fields[fields.length - 1].toLowerCase() === 'no-resolve');
+      if (!resolve) fields.pop();
+      const action = fields[fields.length - 1].toLowerCase() as RuleAction;
+      if (!actions.includes(action)) throw new Error(`invalid rule action at line ${index + 1}: ${line}`);
+
+      if (type === 'FINAL' || type === 'MATCH') {
+        finalAction = action;
+        return;
+      }
+
+      if (fields.length < 3) throw new Error(`invalid rule at line ${index + 1}: ${line}`);
+      // regex may contain commas
+      const value = fields.slice(1, -1).join(',');
+      rules.push({ type, value, action, ip, resolve, match: createMatcher(type, value) });
+    });
+
+    return new Rules(rules, finalAction);
+  }
+
+  static load(file: string) {
+    return Rules.parse(fs.readFileSync(file, 'utf8'));
+  }
+
+  // a domain that cannot be resolved matches no ip rule
+  async match(address: Address, resolver?: Resolver): Promise<RuleAction> {
+    const literal = ipOf(address);
+    let ips: string[] = literal ? [literal] : null;
+    for (const rule of this.rules) {
+      if (rule.ip && !ips && rule.resolve && resolver) {
+        ips = await resolver.resolve(address.domain).catch((): string[] => []);
+      }
+      if (rule.match(address, ips || [])) return rule.action;
+    }
+    return this.finalAction;
+  }
+}
@@ -0,0 +1,85 @@
+import * as crypto from 'crypto';
+
+export class SaltReplayError extends Error {
+  constructor() {
+    super('repeated salt');
+    this.name = 'SaltReplayError';
+  }
+}
+
+class BloomFilter {
+  private bits: Uint8Array;
+  private size: number;
+  private hashes: number;
+  public count: number;
+
+  constructor(capacity: number, errorRate: number) {
+    // m = -n * ln(p) / (ln2)^2, k = m / n * ln2
+    this.size = Math.ceil((-capacity * Math.log(errorRate)) / (Math.LN2 * Math.LN2));
+    this.hashes = Math.max(1, Math.round((this.size / capacity) * Math.LN2));
+    this.bits = new Uint8Array(Math.ceil(this.size / 8));
+    this.count = 0;
+  }
+
+  // double hashing: index_i = h1 + i * h2
+  private *indexes(h1: number, h2: number) {
+    for (let i = 0; i < this.hashes; i++) {
+      yield (h1 + i * h2) % this.size;
+    }
+  }
+
+  has(h1: number, h2: number) {
+    for (const index of this.indexes(h1, h2)) {
+      if ((this.bits[index >> 3] & (1 << (index & 7))) === 0) return false;
+    }
+    return true;
+  }
+
+  add(h1: number, h2: number) {
+    for (const index of this.indexes(h1, h2)) {
+      this.bits[index >> 3] |= 1 << (index & 7);
+    }
+    this.count++;
+  }
+}
+
+// rotating pair of bloom filters, like ppbloom in shadowsocks-libev:
+// when the current filter is full the older one is dropped, so at least
+// the last `capacity` salts are always remembered
+export class SaltFilter {
+  private capacity: number;
+  private errorRate: number;
+  private seed: Buffer;
+  private current: BloomFilter;
+  private previous: BloomFilter;
+  public rejected: number;
+
+  constructor(capacity = 1e6, errorRate = 1e-6) {
+    this.capacity = capacity;
+    this.errorRate = errorRate;
+    // keyed hash, salts are chosen by the peer
+    this.seed = crypto.randomBytes(16);
+    this.current = new BloomFilter(capacity, errorRate);
+    this.previous = null;
+    this.rejected = 0;
+  }
+
+  // returns false if the salt was seen before, otherwise remembers it
+  check(salt: Buffer) {
+    const digest = crypto.createHmac('sha256', this.seed).update(salt).digest();
+    const h1 = digest.readUInt32BE(0);
+    const h2 = (digest.readUInt32BE(4) | 1) >>> 0;
+
+    if (this.current.has(h1, h2) || this.previous?.has(h1, h2)) {
+      this.rejected++;
+      return false;
+    }
+
+    if (this.current.count >= this.capacity) {
+      this.previous = this.current;
+      this.current = new BloomFilter(this.capacity, this.errorRate);
+    }
+    this.current.add(h1, h2);
+    return true;
+  }
+}
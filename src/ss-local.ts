@@ -2,19 +2,44 @@
 
 import * as stream from 'stream';
 import * as net from 'net';
-import { WebSocket, createWebSocketStream } from 'ws';
-import { config, IConfig, Method } from './config';
-import { Logger } from './logger';
+import { URL } from 'url';
+import { cipherInfoMap, IConfig, ILocalUser, IServerConfig } from './config';
+import { loadConfig } from './cli';
+import { ConnectionTracker, handleShutdown, userLimitsOf } from './connections';
+import { accessLog, configureLogging, Logger } from './logger';
 import { Encryptor, Decryptor } from './encrypt';
+import { connectHappyEyeballs } from './happy-eyeballs';
 import { HTTPProxy } from './http-proxy';
-import { Address, parseAddressFromSocks5Head } from './utils';
+import { LocalDNSServer } from './local-dns';
+import * as metrics from './metrics';
+import { loadPAC } from './pac';
+import { getFreePort, Plugin } from './plugin';
+import { RateLimiter, rateLimitsOf, reloadRateLimitsOnSighup } from './ratelimit';
+import { Resolver } from './resolver';
+import { Rules } from './rules';
+import { UDPRelayLocal } from './udp-relay';
+import { getServers, Upstream, UpstreamPool } from './upstream';
+import { Address, checkLocalUser, encodeSocks5Head, parseAddressFromSocks5Head } from './utils';
 
 const logger = new Logger('ss-local');
 
 interface IOptions extends IConfig {
   logger: Logger;
+  udpRelay?: UDPRelayLocal;
+  rules?: Rules;
+  pool: UpstreamPool;
+  rateLimiter: RateLimiter;
+  connections: ConnectionTracker;
+  // for direct connections
+  resolver: Resolver;
 }
 
+// how the client talks to us, replies are written in its protocol; tunnel clients get none
+type ClientProtocol = 'socks5' | 'socks4' | 'http' | 'tunnel';
+
+// bytes of an http request line and headers
+const MAX_HTTP_HEAD = 65536;
+
 const remoteAddr = (socket: net.Socket) => {
   return `${socket.remoteAddress || ''}:${socket.remotePort || ''}`;
 };
@@ -24,21 +49,56 @@ class SocketHandler {
   private tunnel: stream.Duplex;
   private logger: Logger;
   private timeout: number;
-  private server_port: number;
-  private server: string;
-  private cipherMethod: Method;
-  private cipherPassword: string;
+  private pool: UpstreamPool;
   private address: Address;
+  private udpRelay: UDPRelayLocal;
+  private local_address: string;
+  private local_port: number;
+  private localUsers: ILocalUser[];
+  private rules: Rules;
+  private rateLimiter: RateLimiter;
+  private connections: ConnectionTracker;
+  private resolver: Resolver;
+  private protocol: ClientProtocol;
+  // http CONNECT is answered with 200 once connected, other requests get the destination's response
+  private httpConnect: boolean;
+  // first data of a client on the mixed port, read to tell the protocol
+  private pending: Buffer;
+  // false over max_connections of the listener, the request is then refused with a socks reply or a 503
+  private accepted: boolean;
+  // the local user authenticated as, if any
+  private username: string;
+  // for the access log, via is the server or direct once connected
+  private client: string;
+  private via: string;
+  private start: number;
+  private bytesUp: number;
+  private bytesDown: number;
 
   constructor(socket: net.Socket, options: IOptions) {
     this.socket = socket;
     this.tunnel = null;
     this.logger = options.logger || logger;
     this.timeout = (options.timeout || 300) * 1000;
-    this.server_port = options.server_port;
-    this.server = options.server;
-    this.cipherMethod = options.method;
-    this.cipherPassword = options.password;
+    this.pool = options.pool;
+    this.udpRelay = options.udpRelay || null;
+    this.local_address = options.local_address;
+    this.local_port = options.local_port;
+    this.localUsers = options.local_users || [];
+    this.rules = options.rules || null;
+    this.rateLimiter = options.rateLimiter;
+    this.connections = options.connections;
+    this.resolver = options.resolver;
+    this.protocol = 'socks5';
+    this.httpConnect = false;
+    this.pending = null;
+    this.accepted = this.connections.add(socket);
+    this.username = null;
+    this.client = remoteAddr(socket);
+    this.via = null;
+    this.start = Date.now();
+    this.bytesUp = 0;
+    this.bytesDown = 0;
 
     this.init();
   }
@@ -47,11 +107,13 @@ class SocketHandler {
     this.socket.setTimeout(this.timeout);
 
     this.socket.on('timeout', () => {
+      metrics.timeouts.inc({ side: 'client' });
       this.logger.warn('socket timeout', this.address?.info(), remoteAddr(this.socket));
       this.socket.destroy();
     });
 
     this.socket.on('error', (err) => {
+      metrics.countError(err);
       if (['ECONNRESET'].includes((err as any).code)) {
         logger.warn('socket error', this.address?.info(), remoteAddr(this.socket), err.message);
       } else {
@@ -63,10 +125,26 @@ class SocketHandler {
       if (this.tunnel && !this.tunnel.destroyed) {
         this.tunnel.destroy();
       }
+      if (!this.via) return;
+      accessLog({
+        conn_id: this.address.id,
+        user: this.username,
+        client: this.client,
+        dest: this.address.target(),
+        via: this.via,
+        bytes_up: this.bytesUp,
+        bytes_down: this.bytesDown,
+        duration_ms: Date.now() - this.start,
+      });
     });
   }
 
   consume(): Promise<Buffer> {
+    if (this.pending) {
+      const data = this.pending;
+      this.pending = null;
+      return Promise.resolve(data);
+    }
     return new Promise((resolve) => {
       this.socket.once('data', resolve);
     });
@@ -94,14 +172,53 @@ class SocketHandler {
     // o  X'FF' NO ACCEPTABLE METHODS
     const nmethods = data[1];
     const methods = data.slice(2, 2 + nmethods);
-    // only support 0x00
-    if (methods.includes(0x00)) {
-      this.socket.write(Buffer.from([0x05, 0x00]));
-    } else {
+    // 0x02 when local_users configured, otherwise 0x00
+    const method = this.localUsers.length ? 0x02 : 0x00;
+    if (!methods.includes(method)) {
       this.logger.error('auth methods not support');
       this.socket.end(Buffer.from([0x05, 0xff]));
       return true;
     }
+
+    this.socket.write(Buffer.from([0x05, method]));
+    if (method === 0x02) return this.usernamePasswordAuthentication();
+  }
+
+  // RFC 1929
+  //   +----+------+----------+------+----------+
+  //   |VER | ULEN |  UNAME   | PLEN |  PASSWD  |
+  //   +----+------+----------+------+----------+
+  //   | 1  |  1   | 1 to 255 |  1   | 1 to 255 |
+  //   +----+------+----------+------+----------+
+
+  //   +----+--------+
+  //   |VER | STATUS |
+  //   +----+--------+
+  //   | 1  |   1    |
+  //   +----+--------+
+
+  async usernamePasswordAuthentication() {
+    const data = await this.consume();
+    if (data[0] !== 0x01) {
+      this.logger.error('Unsupported auth version: %d', data[0]);
+      this.socket.destroy();
+      return true;
+    }
+
+    const ulen = data[1];
+    const username = data.toString('utf8', 2, 2 + ulen);
+    const plen = data[2 + ulen];
+    const password = data.toString('utf8', 3 + ulen, 3 + ulen + plen);
+
+    if (!checkLocalUser(this.localUsers, username, password)) {
+      this.logger.warn('auth failed', username, remoteAddr(this.socket));
+      this.socket.end(Buffer.from([0x01, 0x01]));
+      return true;
+    }
+
+    this.username = username;
+    this.logger = this.logger.with({ user: username });
+    this.socket.write(Buffer.from([0x01, 0x00]));
   }
 
   //   +----+-----+-------+------+----------+----------+
@@ -121,8 +238,11 @@ class SocketHandler {
   //   o  X'08' Address type not supported
   //   o  X'09' to X'FF' unassigned
 
-  reply(rep: number) {
-    this.socket.write(Buffer.from([0x05, rep, 0x00, 0x01, 0, 0, 0, 0, 0, 0]));
+  reply(rep: number, bindHost = '0.0.0.0', bindPort = 0) {
+    if (this.protocol === 'tunnel') return;
+    if (this.protocol === 'socks4') return this.replySocks4(rep);
+    if (this.protocol === 'http') return this.replyHTTP(rep);
+    this.socket.write(Buffer.concat([Buffer.from([0x05, rep, 0x00]), encodeSocks5Head(bindHost, bindPort)]));
   }
 
   async request() {
@@ -143,7 +263,8 @@ class SocketHandler {
     // o  CONNECT X'01'
     // o  BIND X'02'
     // o  UDP ASSOCIATE X'03'
-    if (data[1] !== 0x01) {
+    const cmd = data[1];
+    if (cmd !== 0x01 && cmd !== 0x03) {
       this.reply(0x07);
       return this.socket.destroy();
     }
@@ -173,23 +294,55 @@ class SocketHandler {
         return this.socket.destroy();
     }
 
-    // only for log
-    parseAddressFromSocks5Head(head, false)
-      .then((address) => {
-        this.address = address;
-        logger.info('begin proxy', address.info());
-      })
-      .catch(() => {
-        // do nothing
-      });
+    // X'01' general SOCKS server failure
+    if (this.refused()) {
+      this.reply(0x01);
+      return this.socket.destroy();
+    }
 
-    if (config.tunnel === 'tcp') {
-      await this.useTcpTunnel(head);
-    } else if (config.tunnel === 'ws' || config.tunnel === 'wss') {
-      await this.useWebSocketTunnel(head);
-    } else {
-      throw new Error('should not be here');
+    if (cmd === 0x03) return this.udpAssociate();
+
+    await this.connectTo(head);
+  }
+
+  // the destination of head by the rules: rejected, connected to directly or through a server
+  private async connectTo(head: Buffer) {
+    try {
+      this.address = await parseAddressFromSocks5Head(head);
+    } catch (err) {
+      this.logger.error('invalid address', remoteAddr(this.socket), err.message);
+      this.reply(0x01);
+      return this.socket.destroy();
+    }
+
+    this.logger = this.logger.with({ conn_id: this.address.id, dest: this.address.target() });
+    const action = this.rules ? await this.rules.match(this.address, this.resolver) : 'proxy';
+    if (action === 'reject') {
+      this.logger.info('reject', this.address.info());
+      this.reply(0x02);
+      return this.socket.destroy();
     }
+    if (action === 'direct') {
+      this.logger.info('begin direct', this.address.info());
+      return this.useDirect();
+    }
+
+    this.logger.info('begin proxy', this.address.info());
+    await this.useTunnel(head);
+  }
+
+  // DST.ADDR and DST.PORT of the request are where the client will send from,
+  // most clients leave them zero so packets are accepted from the client's ip
+  udpAssociate() {
+    if (!this.udpRelay) {
+      this.reply(0x07);
+      return this.socket.destroy();
+    }
+
+    const release = this.udpRelay.associate(this.socket.remoteAddress);
+    this.socket.on('close', release);
+    this.logger.info('udp associate', remoteAddr(this.socket));
+    this.reply(0x00, this.local_address, this.local_port);
   }
 
   async handle() {
@@ -199,92 +352,484 @@ class SocketHandler {
     this.request();
   }
 
-  async useTcpTunnel(head: Buffer) {
-    const tunnel = net.createConnection(this.server_port, this.server);
-    this.tunnel = tunnel;
+  // ss-tunnel: the connection goes to host:port through the server, as if the client
+  // had asked for it with a socks5 CONNECT
+  async forward(host: string, port: number) {
+    this.protocol = 'tunnel';
+    if (this.refused()) return this.socket.destroy();
+
+    const head = encodeSocks5Head(host, port);
+    this.address = await parseAddressFromSocks5Head(head);
+    this.logger = this.logger.with({ conn_id: this.address.id, dest: this.address.target() });
+    this.logger.info('begin tunnel', this.address.info(), remoteAddr(this.socket));
+    await this.useTunnel(head);
+  }
+
+  // local_mixed_port: the first byte is the socks version or the method of an http request
+  async handleMixed() {
+    const data = await this.consume();
+    this.pending = data;
+    if (data[0] === 0x05) return this.handle();
+    if (data[0] === 0x04) return this.handleSocks4();
+    // A-Z, e.g. CONNECT or GET
+    if (data[0] >= 0x41 && data[0] <= 0x5a) return this.handleHTTP();
+
+    this.logger.error('unknown protocol, first byte %d', data[0]);
+    this.socket.destroy();
+  }
+
+  //   +----+----+----+----+----+----+----+----+----+----+....+----+
+  //   | VN | CD | DSTPORT |      DSTIP        | USERID       |NULL|
+  //   +----+----+----+----+----+----+----+----+----+----+....+----+
+  //   | 1  | 1  |    2    |         4         | variable     | 1  |
+  //   +----+----+----+----+----+----+----+----+----+----+....+----+
+
+  // SOCKS4a: DSTIP 0.0.0.x with x not zero, the domain follows USERID, ended by NULL too
+  async handleSocks4() {
+    this.protocol = 'socks4';
+    const data = await this.consume();
+    // o  CONNECT 1, BIND is not supported
+    if (data[0] !== 0x04 || data[1] !== 0x01) {
+      this.logger.error('Unsupported SOCKS4 command: %d', data[1]);
+      this.reply(0x07);
+      return this.socket.destroy();
+    }
+    // there is no password in socks4
+    if (this.localUsers.length) {
+      this.logger.warn('socks4 refused, local_users need socks5 or http', remoteAddr(this.socket));
+      this.reply(0x02);
+      return this.socket.destroy();
+    }
+
+    const userEnd = data.indexOf(0x00, 8);
+    let host = `${data[4]}.${data[5]}.${data[6]}.${data[7]}`;
+    if (data[4] === 0 && data[5] === 0 && data[6] === 0 && data[7] !== 0) {
+      const domainEnd = userEnd === -1 ? -1 : data.indexOf(0x00, userEnd + 1);
+      host = domainEnd === -1 ? '' : data.toString('ascii', userEnd + 1, domainEnd);
+    }
+    if (userEnd === -1 || !host || host.length > 255) {
+      this.logger.error('invalid socks4 request', remoteAddr(this.socket));
+      this.reply(0x01);
+      return this.socket.destroy();
+    }
+
+    if (this.refused()) {
+      this.reply(0x01);
+      return this.socket.destroy();
+    }
+    await this.connectTo(encodeSocks5Head(host, data.readUInt16BE(2)));
+  }
+
+  //   +----+----+----+----+----+----+----+----+
+  //   | VN | CD | DSTPORT |      DSTIP        |
+  //   +----+----+----+----+----+----+----+----+
+  //   | 1  | 1  |    2    |         4         |
+  //   +----+----+----+----+----+----+----+----+
+
+  //   o  90 request granted
+  //   o  91 request rejected or failed
+  private replySocks4(rep: number) {
+    this.socket.write(Buffer.from([0x00, rep === 0x00 ? 90 : 91, 0, 0, 0, 0, 0, 0]));
+  }
+
+  // an http proxy request: CONNECT host:port, or a request for an absolute http:// url
+  // sent on to the destination in origin form, with Connection: close
+  async handleHTTP() {
+    this.protocol = 'http';
+    let received = Buffer.alloc(0);
+    let end = -1;
+    while (end === -1) {
+      received = Buffer.concat([received, await this.consume()]);
+      end = received.indexOf('\r\n\r\n');
+      if (end === -1 && received.length > MAX_HTTP_HEAD) return this.respond('431 Request Header Fields Too Large');
+    }
+
+    const [requestLine, ...lines] = received.toString('latin1', 0, end).split('\r\n');
+    const [method, target, version] = requestLine.split(' ');
+    const headers = lines.map((line) => [line.slice(0, line.indexOf(':')).trim(), line.slice(line.indexOf(':') + 1).trim()]);
+    // sent with the request, or after it before we were connected
+    let early = received.slice(end + 4);
+
+    if (this.localUsers.length) {
+      // Proxy-Authorization: Basic base64(username:password)
+      const [scheme, credentials] = (headers.find(([name]) => name.toLowerCase() === 'proxy-authorization')?.[1] || '').split(' ');
+      const decoded = scheme?.toLowerCase() === 'basic' && credentials ? Buffer.from(credentials, 'base64').toString() : '';
+      const index = decoded.indexOf(':');
+      const username = decoded.slice(0, index);
+      if (index === -1 || !checkLocalUser(this.localUsers, username, decoded.slice(index + 1))) {
+        if (index > -1) this.logger.warn('http proxy auth failed', username, remoteAddr(this.socket));
+        return this.respond('407 Proxy Authentication Required', 'Proxy-Authenticate: Basic realm="node-shadowsocks"\r\n');
+      }
+      this.username = username;
+      this.logger = this.logger.with({ user: username });
+    }
 
-    tunnel.on('timeout', () => {
-      this.logger.warn('tcp tunnel timeout', remoteAddr(this.socket));
-      tunnel.destroy();
+    let host: string;
+    let port: number;
+    if (method === 'CONNECT') {
+      this.httpConnect = true;
+      const index = target.lastIndexOf(':');
+      host = target.slice(0, index).replace(/^\[|\]$/g, '');
+      port = Number(target.slice(index + 1));
+    } else {
+      let url: URL;
+      try {
+        url = new URL(target);
+      } catch (err) {
+        // relative urls, e.g. /proxy.pac, are for local_http_port
+        return this.respond('400 Bad Request');
+      }
+      if (url.protocol !== 'http:') return this.respond('400 Bad Request');
+      host = url.hostname.replace(/^\[|\]$/g, '');
+      port = Number(url.port) || 80;
+      const kept = headers.filter(([name]) => !/^(proxy-authorization|proxy-connection|connection|keep-alive)$/i.test(name));
+      const head = [`${method} ${url.pathname}${url.search} ${version}`, ...kept.map(([name, value]) => `${name}: ${value}`), 'Connection: close'];
+      early = Buffer.concat([Buffer.from(head.join('\r\n') + '\r\n\r\n', 'latin1'), early]);
+    }
+    if (!host || Buffer.byteLength(host) > 255 || !(Number.isInteger(port) && port > 0 && port <= 65535)) {
+      return this.respond('400 Bad Request');
+    }
+    this.logger.info('http %s %s', method, target);
+
+    if (this.refused()) {
+      this.reply(0x01);
+      return this.socket.destroy();
+    }
+    // held until the destination is connected and the socket piped to it
+    this.socket.pause();
+    if (early.length) this.socket.unshift(early);
+    await this.connectTo(encodeSocks5Head(host, port));
+  }
+
+  // 200 once a CONNECT is connected, or the status of a socks5 REP that failed
+  private replyHTTP(rep: number) {
+    if (rep === 0x00) {
+      if (this.httpConnect) this.socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      return;
+    }
+    // X'01' over max_connections or no server to connect through, X'02' rejected by the rules
+    const status = rep === 0x01 ? '503 Service Unavailable' : rep === 0x02 ? '403 Forbidden' : '502 Bad Gateway';
+    this.socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+  }
+
+  private respond(status: string, headers = '') {
+    this.socket.end(`HTTP/1.1 ${status}\r\n${headers}Connection: close\r\nContent-Length: 0\r\n\r\n`);
+  }
+
+  async useDirect() {
+    const { domain, host, port } = this.address;
+    const start = Date.now();
+    let remote: net.Socket;
+    try {
+      const hosts = await this.resolver.resolve(domain || host);
+      if (!hosts.length) throw new Error(`no address for ${domain || host}`);
+      remote = await connectHappyEyeballs(hosts, port);
+    } catch (err) {
+      metrics.countError(err);
+      this.logger.warn('direct error:', this.address.info(), err.message);
+      // X'05' Connection refused, X'04' Host unreachable
+      this.reply(err.code === 'ECONNREFUSED' ? 0x05 : 0x04);
+      return this.socket.destroy();
+    }
+    this.tunnel = remote;
+
+    if (this.socket.destroyed) {
+      return remote.destroy();
+    }
+
+    remote.on('timeout', () => {
+      metrics.timeouts.inc({ side: 'remote' });
+      this.logger.warn('direct timeout', this.address.info());
+      remote.destroy();
     });
 
-    tunnel.on('error', (err) => {
-      this.logger.error('tcp tunnel error:', remoteAddr(this.socket), err);
+    remote.on('error', (err) => {
+      metrics.countError(err);
+      this.logger.warn('direct error:', this.address.info(), err.message);
     });
 
-    tunnel.on('close', () => {
+    remote.on('close', () => {
+      // after a clean end what the throttle still holds reaches the client through the pipe
+      if (remote.readableEnded) return;
       if (!this.socket.destroyed) {
         this.socket.destroy();
       }
     });
 
-    await new Promise((resolve) => {
-      tunnel.on('connect', resolve);
-    });
-
-    tunnel.setTimeout(this.timeout);
-
+    metrics.upstreamConnectSeconds.since({ server: 'direct' }, start);
+    remote.setTimeout(this.timeout);
     this.reply(0x00);
-    this.transfer(head);
+    const { upload, download } = this.throttles();
+    this.countBytes('direct', remote);
+    this.socket.pipe(upload).pipe(remote);
+    remote.pipe(download).pipe(this.socket);
   }
 
-  async useWebSocketTunnel(head: Buffer) {
-    let endpoint = '';
-    if (this.server.startsWith('ws')) {
-      endpoint = this.server;
-    } else {
-      endpoint = `${config.tunnel}://${this.server}:${this.server_port}`;
+  // the next server is tried if one fails to connect, before replying to the client
+  async useTunnel(head: Buffer) {
+    let upstream: Upstream;
+    let tunnel: stream.Duplex;
+    try {
+      ({ upstream, tunnel } = await this.pool.connect(this.address.domain || this.address.host));
+    } catch (err) {
+      this.logger.error('tunnel connect error:', this.address.info(), remoteAddr(this.socket), err.message);
+      this.reply(0x01);
+      return this.socket.destroy();
     }
-
-    const ws = new WebSocket(endpoint);
-    const tunnel = createWebSocketStream(ws);
     this.tunnel = tunnel;
 
-    tunnel.on('close', () => {
-      this.logger.info('websocket tunnel close:', this.address?.info(), remoteAddr(this.socket));
-    });
+    if (this.socket.destroyed) {
+      return tunnel.destroy();
+    }
+
+    if (tunnel instanceof net.Socket) {
+      tunnel.setTimeout(this.timeout);
+      tunnel.on('timeout', () => {
+        metrics.timeouts.inc({ side: 'tunnel' });
+        this.logger.warn('tcp tunnel timeout', remoteAddr(this.socket));
+        tunnel.destroy();
+      });
+    }
 
     tunnel.on('error', (err) => {
-      if (err.message.includes('WebSocket was closed')) {
-        this.logger.warn('websocket tunnel error:', this.address?.info(), remoteAddr(this.socket), err.message);
+      metrics.countError(err);
+      if (err.message.includes('WebSocket was closed') || err.message.startsWith('mux ') || ['ECONNRESET'].includes((err as any).code)) {
+        this.logger.warn('tunnel error:', upstream.name, this.address.info(), remoteAddr(this.socket), err.message);
       } else {
-        this.logger.error('websocket tunnel error:', this.address?.info(), remoteAddr(this.socket), err);
+        this.logger.error('tunnel error:', upstream.name, this.address.info(), remoteAddr(this.socket), err);
+      }
+    });
+
+    tunnel.on('close', () => {
+      if (tunnel.readableEnded) return;
+      if (!this.socket.destroyed) {
+        this.socket.destroy();
       }
     });
 
     this.reply(0x00);
-    this.transfer(head);
+    this.transfer(head, upstream);
   }
 
-  private transfer(head: Buffer) {
-    const encryptor = new Encryptor(this.cipherMethod, this.cipherPassword);
+  private transfer(head: Buffer, upstream: Upstream) {
+    const { method, password } = upstream.config;
+    const encryptor = new Encryptor(method, password);
     encryptor.pipe(this.tunnel);
     encryptor.write(head);
-    this.socket.pipe(encryptor);
+    const { upload, download } = this.throttles();
+    this.socket.pipe(upload).pipe(encryptor);
 
-    const decryptor = new Decryptor(this.cipherMethod, this.cipherPassword);
+    const decryptor = new Decryptor(method, password, { requestSalt: encryptor.salt });
     decryptor.on('error', (err) => {
+      metrics.decryptFailures.inc({ reason: metrics.failureReason(err) });
       this.logger.error('decryptor error:', remoteAddr(this.socket), err);
       this.tunnel.destroy();
     });
-    this.tunnel.pipe(decryptor).pipe(this.socket);
+    this.countBytes(upstream.name, decryptor);
+    this.tunnel.pipe(decryptor).pipe(download).pipe(this.socket);
+    // nothing came back for an http request, the server could not connect;
+    // answered before the pipe ends the socket
+    if (this.protocol === 'http' && !this.httpConnect) {
+      decryptor.once('end', () => {
+        if (!this.bytesDown) this.reply(0x04);
+      });
+    }
+  }
+
+  // bytes from the client and to it from the server or the direct connection
+  private countBytes(server: string, from: stream.Readable) {
+    this.via = server;
+    this.socket.on('data', (chunk) => {
+      this.bytesUp += chunk.length;
+      metrics.upstreamBytes.inc({ server, direction: 'up' }, chunk.length);
+    });
+    from.on('data', (chunk) => {
+      this.bytesDown += chunk.length;
+      metrics.upstreamBytes.inc({ server, direction: 'down' }, chunk.length);
+    });
+  }
+
+  // max_connections of the listener or of the user reached
+  private refused() {
+    if (!this.accepted) {
+      metrics.connectionsRejected.inc({ scope: 'listener' });
+      this.logger.warn('max_connections reached, refused', remoteAddr(this.socket));
+      return true;
+    }
+    if (this.username && !this.connections.addUser(this.socket, this.username)) {
+      metrics.connectionsRejected.inc({ scope: 'user' });
+      this.logger.warn('max_connections of the user reached, refused', remoteAddr(this.socket));
+      return true;
+    }
+    return false;
+  }
+
+  // limits of the connection, of its user and of all connections
+  private throttles() {
+    const { upload, download, release } = this.rateLimiter.connect(this.username);
+    this.socket.once('close', release);
+    return { upload, download };
   }
 }
 
-const ssLocalServer = net.createServer((socket) => {
-  new SocketHandler(socket, { logger, ...config }).handle();
-});
+// the tcp listeners of tunnels, udp ones are relayed straight to udpServer like socks5 udp
+function startTunnels(config: IConfig, udpServer: IServerConfig, shared: Pick<IOptions, 'logger' | 'pool' | 'rateLimiter' | 'resolver'>) {
+  const listeners: { server: net.Server; connections: ConnectionTracker }[] = [];
+  for (const tunnel of config.tunnels || []) {
+    const { local_port, target_host, target_port } = tunnel;
+    const protocol = tunnel.protocol || 'tcp';
+
+    if (protocol !== 'udp') {
+      const connections = new ConnectionTracker(config.max_connections);
+      const server = net.createServer((socket) => {
+        metrics.connectionsTotal.inc();
+        metrics.connectionsActive.inc();
+        socket.on('close', () => metrics.connectionsActive.dec());
+        new SocketHandler(socket, { ...shared, connections, ...config }).forward(target_host, target_port);
+      });
+      server.on('error', (err) => {
+        logger.error('tunnel server error:', err);
+      });
+      server.listen(local_port, config.local_address, () => {
+        logger.info('tunnel listen at %s to %s:%s', local_port, target_host, target_port);
+      });
+      listeners.push({ server, connections });
+    }
 
-ssLocalServer.on('error', (err) => {
-  logger.info('ss local server error:', err);
-});
+    if (protocol !== 'tcp') {
+      if (!udpServer) throw new Error(`udp tunnel on ${local_port} needs a server with tunnel tcp and a method other than the 2022 ones`);
+      new UDPRelayLocal({
+        address: config.local_address,
+        port: local_port,
+        server: udpServer.server,
+        server_port: udpServer.server_port,
+        method: udpServer.method,
+        password: udpServer.password,
+        timeout: config.timeout,
+        target: { host: target_host, port: target_port },
+      }).start();
+    }
+  }
+  return listeners;
+}
 
-ssLocalServer.listen(config.local_port, () => {
-  logger.info('ss local server listen at %s', config.local_port);
-});
+// servers with a plugin are connected through it, on a free loopback port
+async function viaPlugins(servers: IServerConfig[]) {
+  return Promise.all(
+    servers.map(async (server) => {
+      if (!server.plugin) return server;
+
+      const localPort = await getFreePort();
+      new Plugin({
+        plugin: server.plugin,
+        plugin_opts: server.plugin_opts,
+        remoteHost: server.server,
+        remotePort: server.server_port,
+        localHost: '127.0.0.1',
+        localPort,
+      }).start();
+      return { ...server, server: '127.0.0.1', server_port: localPort, tunnel: 'tcp' as const };
+    })
+  );
+}
+
+async function main() {
+  const config = loadConfig('local');
+  configureLogging(config);
+
+  const servers = getServers(config);
+  const pool = new UpstreamPool(await viaPlugins(servers), { balance: config.balance, health_check: config.health_check, logger });
+  pool.startHealthCheck();
+
+  // udp goes straight to the udp port of the first server able to relay it,
+  // websocket tunnels have no udp counterpart and plugins only carry tcp
+  const udpServer = servers.find((server) => server.tunnel === 'tcp' && !cipherInfoMap[server.method].sip022);
+  const udpRelay = udpServer
+    ? new UDPRelayLocal({
+      address: config.local_address,
+      port: config.local_port,
+      server: udpServer.server,
+      server_port: udpServer.server_port,
+      method: udpServer.method,
+      password: udpServer.password,
+      timeout: config.timeout,
+    })
+    : null;
+  udpRelay?.start();
+
+  const rules = config.rules_file ? Rules.load(config.rules_file) : null;
+  const rateLimiter = new RateLimiter(rateLimitsOf(config));
+  const resolver = new Resolver(config);
+  if (config.metrics_address) metrics.serveMetrics(config.metrics_address, logger);
+  reloadRateLimitsOnSighup('local', logger, (newConfig) => rateLimiter.update(rateLimitsOf(newConfig)));
+
+  // max_connections applies to the socks5, the http and the mixed listener each
+  const userLimits = userLimitsOf(config.local_users);
+  const connections = new ConnectionTracker(config.max_connections, userLimits);
+  const ssLocalServer = net.createServer((socket) => {
+    metrics.connectionsTotal.inc();
+    metrics.connectionsActive.inc();
+    socket.on('close', () => metrics.connectionsActive.dec());
+    new SocketHandler(socket, { logger, udpRelay, rules, pool, rateLimiter, connections, resolver, ...config }).handle();
+  });
+
+  ssLocalServer.on('error', (err) => {
+    logger.info('ss local server error:', err);
+  });
+
+  ssLocalServer.listen(config.local_port, () => {
+    logger.info('ss local server listen at %s', config.local_port);
+  });
+
+  const mixedConnections = new ConnectionTracker(config.max_connections, userLimits);
+  const mixedServer = config.local_mixed_port
+    ? net.createServer((socket) => {
+      metrics.connectionsTotal.inc();
+      metrics.connectionsActive.inc();
+      socket.on('close', () => metrics.connectionsActive.dec());
+      new SocketHandler(socket, { logger, udpRelay, rules, pool, rateLimiter, connections: mixedConnections, resolver, ...config }).handleMixed();
+    })
+    : null;
+  mixedServer?.on('error', (err) => {
+    logger.info('mixed server error:', err);
+  });
+  mixedServer?.listen(config.local_mixed_port, () => {
+    logger.info('mixed server listen at %s', config.local_mixed_port);
+  });
+
+  const httpProxy = new HTTPProxy({
+    port: config.local_http_port,
+    socksHost: config.local_address,
+    socksPort: config.local_port,
+    users: config.local_users,
+    pac: loadPAC({
+      file: config.pac_file,
+      domains: config.pac_domains,
+      proxy: `SOCKS5 ${config.local_address}:${config.local_port}; PROXY ${config.local_address}:${config.local_http_port}`,
+    }),
+    connections: new ConnectionTracker(config.max_connections, userLimits),
+  });
+  httpProxy.start();
+
+  const tunnels = startTunnels(config, udpServer, { logger, pool, rateLimiter, resolver });
+  const localDNS = config.local_dns ? new LocalDNSServer({ ...config.local_dns, address: config.local_address, pool }) : null;
+  localDNS?.start();
+
+  handleShutdown(logger, (config.shutdown_timeout ?? 30) * 1000, async (timeout) => {
+    ssLocalServer.close();
+    mixedServer?.close();
+    for (const tunnel of tunnels) tunnel.server.close();
+    localDNS?.close();
+    await Promise.all([
+      connections.drain(timeout),
+      mixedConnections.drain(timeout),
+      httpProxy.shutdown(timeout),
+      ...tunnels.map((tunnel) => tunnel.connections.drain(timeout)),
+    ]);
+  });
+}
 
-new HTTPProxy({
-  port: config.local_http_port,
-  socksHost: config.local_address,
-  socksPort: config.local_port,
-}).start();
+main().catch((err) => {
+  logger.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,248 @@
+#!/usr/bin/env node
+
+import * as dgram from 'dgram';
+import * as fs from 'fs';
+import * as net from 'net';
+import { IConfig, IRateLimit, Method, validateConfig } from './config';
+import { loadConfig } from './cli';
+import { handleShutdown } from './connections';
+import { configureLogging, Logger } from './logger';
+import { serveMetrics } from './metrics';
+import { IRateLimits, RateLimiter, rateLimitsOf, reloadRateLimitsOnSighup } from './ratelimit';
+import { Resolver } from './resolver';
+import { SaltFilter } from './salt-filter';
+import { ShadowsocksServer } from './ss-server';
+import { ShadowsocksWebSocketServer } from './ss-server-websocket';
+import { userStats } from './stats';
+
+const logger = new Logger('ss-manager');
+
+interface IManagedPort {
+  server_port: number;
+  password: string;
+  method?: Method;
+  rate_limit?: IRateLimit;
+}
+
+// many ports in one process, controlled like shadowsocks-libev's ss-manager:
+//   add: {"server_port": 8001, "password": "7cd308cc059"}  -> ok
+//   remove: {"server_port": 8001}                           -> ok
+//   ping                                                    -> stat: {"8001": 11370}
+//   list                                                    -> [{"server_port": 8001, "password": "..."}]
+//   limit: {"server_port": 8001, "upload": 0, "download": 1048576} -> ok
+export class Manager {
+  private config: IConfig;
+  private logger: Logger;
+  private saltFilter: SaltFilter;
+  // the port is the user of the per-user limits
+  private rateLimiter: RateLimiter;
+  // one dns cache for every port
+  private resolver: Resolver;
+  private ports: Map<number, { options: IManagedPort; server: ShadowsocksServer | ShadowsocksWebSocketServer }>;
+
+  constructor(config: IConfig, options?: { logger?: Logger }) {
+    this.config = config;
+    this.logger = options?.logger || logger;
+    this.saltFilter = new SaltFilter(config.salt_filter_capacity);
+    this.ports = new Map();
+    this.rateLimiter = new RateLimiter(rateLimitsOf(config));
+    this.resolver = new Resolver(config);
+  }
+
+  // the global and per connection limits of the config, the per port ones set by commands
+  rateLimits(config = this.config): IRateLimits {
+    const users: Record<string, IRateLimit> = {};
+    for (const [port, { options }] of this.ports) {
+      if (options.rate_limit) users[port] = options.rate_limit;
+    }
+    return { ...rateLimitsOf(config), users };
+  }
+
+  // resolves once the port is listening, rejects and forgets the port when it cannot be bound
+  async add(options: IManagedPort) {
+    const port = Number(options.server_port);
+    if (this.ports.has(port)) throw new Error(`port ${port} already exists`);
+
+    const method = options.method || this.config.method;
+    // the port is the user name, so traffic is counted per port
+    const serverOptions = {
+      ...this.config,
+      server_port: port,
+      password: options.password,
+      method,
+      users: [{ name: String(port), password: options.password, method }],
+      logger: this.logger,
+      saltFilter: this.saltFilter,
+      rateLimiter: this.rateLimiter,
+      resolver: this.resolver,
+    };
+    validateConfig(serverOptions, 'server');
+    const server = this.config.tunnel === 'ws' || this.config.tunnel === 'wss' ? new ShadowsocksWebSocketServer(serverOptions) : new ShadowsocksServer(serverOptions);
+    // taken while binding, so a second add of the port fails
+    this.ports.set(port, { options: { server_port: port, password: options.password, method }, server });
+    try {
+      await server.start();
+    } catch (err) {
+      if (this.ports.get(port)?.server === server) this.ports.delete(port);
+      server.stop();
+      throw err;
+    }
+
+    this.logger.info('add port %d', port);
+    if (options.rate_limit) this.limit(port, options.rate_limit);
+  }
+
+  remove(port: number) {
+    port = Number(port);
+    const entry = this.ports.get(port);
+    if (!entry) throw new Error(`port ${port} not exists`);
+
+    entry.server.stop();
+    this.ports.delete(port);
+    // a port added again starts counting from zero
+    userStats.delete(String(port));
+    this.logger.info('remove port %d', port);
+  }
+
+  // applies to the open connections of the port too
+  limit(port: number, limit: IRateLimit) {
+    port = Number(port);
+    const entry = this.ports.get(port);
+    if (!entry) throw new Error(`port ${port} not exists`);
+
+    const rateLimit = { upload: Number(limit.upload) || 0, download: Number(limit.download) || 0 };
+    entry.options.rate_limit = rateLimit;
+    this.rateLimiter.setUserLimit(String(port), rateLimit);
+    this.logger.info('limit port %d to %d up, %d down', port, rateLimit.upload, rateLimit.download);
+  }
+
+  reloadRateLimits(config: IConfig) {
+    this.rateLimiter.update(this.rateLimits(config));
+  }
+
+  // every port, see ShadowsocksServer.shutdown
+  shutdown(timeout: number) {
+    return Promise.all([...this.ports.values()].map((entry) => entry.server.shutdown(timeout)));
+  }
+
+  // transferred bytes per port
+  stat() {
+    const stat: Record<string, number> = {};
+    for (const port of this.ports.keys()) {
+      const { bytesUp, bytesDown } = userStats.get(String(port));
+      stat[port] = bytesUp + bytesDown;
+    }
+    return stat;
+  }
+
+  list() {
+    return [...this.ports.values()].map((entry) => entry.options);
+  }
+
+  async handleCommand(line: string) {
+    // libev clients may end their datagrams with a nul, like c strings
+    line = line.replace(/\0/g, '').trim();
+    const index = line.indexOf(':');
+    const command = index === -1 ? line : line.slice(0, index).trim();
+    const body = index === -1 ? '' : line.slice(index + 1).trim();
+
+    try {
+      switch (command) {
+        case 'add':
+          await this.add(JSON.parse(body));
+          return 'ok';
+        case 'remove':
+          this.remove(JSON.parse(body).server_port);
+          return 'ok';
+        case 'ping':
+          return `stat: ${JSON.stringify(this.stat())}`;
+        case 'list':
+          return JSON.stringify(this.list());
+        case 'limit': {
+          const { server_port, ...limit } = JSON.parse(body);
+          this.limit(server_port, limit);
+          return 'ok';
+        }
+        default:
+          throw new Error(`unknown command ${command}`);
+      }
+    } catch (err) {
+      this.logger.warn('command %s failed: %s', command, err.message);
+      return 'err';
+    }
+  }
+
+  // host:port for udp, a command per datagram like libev's ss-manager, or a path for a unix socket;
+  // node has no unix datagram sockets, so that is a stream socket with one command per line
+  listen(address: string) {
+    if (address.includes('/')) {
+      if (fs.existsSync(address)) fs.unlinkSync(address);
+
+      const server = net.createServer((socket) => {
+        let buf = '';
+        // replies in the order of the commands
+        let replied = Promise.resolve();
+        socket.on('data', (chunk) => {
+          buf += chunk.toString();
+          let index: number;
+          while ((index = buf.indexOf('\n')) > -1) {
+            const line = buf.slice(0, index);
+            buf = buf.slice(index + 1);
+            if (!line.trim()) continue;
+            const reply = this.handleCommand(line);
+            replied = replied.then(async () => {
+              const text = await reply;
+              if (!socket.destroyed) socket.write(text + '\n');
+            });
+          }
+        });
+        socket.on('error', (err) => {
+          this.logger.warn('manager socket error', err.message);
+        });
+      });
+      server.listen(address, () => {
+        this.logger.info('ss manager listen at %s', address);
+      });
+      return;
+    }
+
+    const index = address.lastIndexOf(':');
+    const host = address.slice(0, index).replace(/^\[|\]$/g, '');
+    const port = Number(address.slice(index + 1));
+    const socket = dgram.createSocket(net.isIPv6(host) ? 'udp6' : 'udp4');
+    socket.on('message', async (msg, rinfo) => {
+      socket.send(await this.handleCommand(msg.toString()), rinfo.port, rinfo.address);
+    });
+    socket.on('error', (err) => {
+      this.logger.error('ss manager error:', err);
+    });
+    socket.bind(port, host, () => {
+      this.logger.info('ss manager listen at %s', address);
+    });
+  }
+}
+
+if (require.main === module) {
+  const config = loadConfig('manager');
+  configureLogging(config);
+  const manager = new Manager(config);
+  for (const [port, password] of Object.entries(config.port_password || {})) {
+    manager.add({ server_port: Number(port), password }).catch((err) => {
+      logger.error('port %s not added: %s', port, err.message);
+    });
+  }
+  manager.listen(config.manager_address || '127.0.0.1:6001');
+  if (config.metrics_address) serveMetrics(config.metrics_address, logger);
+  handleShutdown(logger, (config.shutdown_timeout ?? 30) * 1000, (timeout) => manager.shutdown(timeout));
+  reloadRateLimitsOnSighup('manager', logger, (newConfig) => manager.reloadRateLimits(newConfig));
+
+  process.on('uncaughtException', (err) => {
+    logger.warn('uncaughtException');
+    logger.error(err);
+  });
+
+  process.on('unhandledRejection', (err) => {
+    logger.warn('unhandledRejection');
+    logger.error(err);
+  });
+}
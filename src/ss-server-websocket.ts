@@ -1,104 +1,409 @@
 #!/usr/bin/env node
 
+import * as crypto from 'crypto';
+import * as fs from 'fs';
 import * as stream from 'stream';
 import * as net from 'net';
 import * as http from 'http';
+import * as https from 'https';
+import { URL } from 'url';
 import { WebSocketServer, createWebSocketStream } from 'ws';
-import { config } from './config';
+import { IConfig } from './config';
+import { loadConfig } from './cli';
+import { ACLDeniedError, OutboundACL } from './acl';
+import { ConnectionTracker, handleShutdown, userLimitsOf } from './connections';
 import { Encryptor, Decryptor } from './encrypt';
-import { Logger } from './logger';
-import { Address, parseAddressFromSocks5Head } from './utils';
+import { connectHappyEyeballs } from './happy-eyeballs';
+import { createFallback } from './fallback';
+import { accessLog, configureLogging, Logger } from './logger';
+import * as metrics from './metrics';
+import { MuxSession, MuxStream, MUX_PROTOCOL } from './mux';
+import { RateLimiter, rateLimitsOf, reloadRateLimitsOnSighup, Throttle } from './ratelimit';
+import { Resolver } from './resolver';
+import { SaltFilter, SaltReplayError } from './salt-filter';
+import { errorStats, userStats } from './stats';
+import { WS_TOKEN_HEADER } from './tunnel';
+import { getUsers, identifyUser, IUser, UserMatcher } from './users';
+import { Address, listen, parseAddressFromSocks5Head } from './utils';
 
 const logger = new Logger('ss-server');
-const timeout = (config.timeout || 300) * 1000;
 
-const server = http.createServer();
-const wss = new WebSocketServer({ server });
+interface IOptions extends IConfig {
+  logger: Logger;
+  saltFilter?: SaltFilter;
+  userMatcher: UserMatcher;
+  outboundACL?: OutboundACL;
+  rateLimiter?: RateLimiter;
+  connections?: ConnectionTracker;
+  resolver?: Resolver;
+  // address of the websocket client
+  client?: string;
+  // closes the underlying connection, defaults to destroying the tunnel
+  close?: () => void;
+}
 
-wss.on('connection', function connection(ws) {
-  let proxy: net.Socket;
-  let address: Address;
-  const tunnel: stream.Duplex = createWebSocketStream(ws);
+export class SocketHandler {
+  private tunnel: stream.Duplex;
+  private logger: Logger;
+  private timeout: number;
+  private saltFilter: SaltFilter;
+  private userMatcher: UserMatcher;
+  private outboundACL: OutboundACL;
+  private rateLimiter: RateLimiter;
+  private connections: ConnectionTracker;
+  private resolver: Resolver;
+  private closeTunnel: () => void;
+  private user: IUser;
+  private decryptor: Decryptor;
+  // throttles of the encrypted streams from and to the client
+  private upload: Throttle;
+  private download: Throttle;
+  // the first chunk decrypted and passed the salt filter
+  private authenticated: boolean;
+  private address: Address;
+  private proxy: net.Socket;
+  // for the access log
+  private client: string;
+  private start: number;
+  private bytesUp: number;
+  private bytesDown: number;
 
-  tunnel.on('close', () => {
-    logger.info('websocket tunnel close:', address?.info());
-  });
+  constructor(tunnel: stream.Duplex, options: IOptions) {
+    this.tunnel = tunnel;
+    this.logger = options.logger || logger;
+    this.timeout = (options.timeout || 300) * 1000;
+    this.saltFilter = options.saltFilter;
+    this.userMatcher = options.userMatcher;
+    this.outboundACL = options.outboundACL;
+    this.rateLimiter = options.rateLimiter || new RateLimiter();
+    this.connections = options.connections || new ConnectionTracker();
+    this.resolver = options.resolver || new Resolver(options);
+    this.closeTunnel = options.close || (() => this.tunnel.destroy());
 
-  tunnel.on('error', (err) => {
-    if (err.message.includes('WebSocket is not open')) {
-      logger.warn('websocket tunnel error:', address?.info(), err.message);
-    } else {
-      logger.error('websocket tunnel error:', address?.info(), err);
-    }
-  });
+    // known after identifyUser
+    this.user = null;
+    this.decryptor = null;
+    this.upload = null;
+    this.download = null;
+    this.authenticated = false;
+
+    this.address = null;
+    this.proxy = null;
+    this.client = options.client;
+    this.start = Date.now();
+    this.bytesUp = 0;
+    this.bytesDown = 0;
 
-  const decryptor = new Decryptor(config.method, config.password, { emitFirstPayload: true });
+    this.init();
+  }
 
-  decryptor.on('error', (err) => {
-    logger.error('decryptor error', err);
-    if (proxy && !proxy.destroyed) proxy.destroy();
-    ws.close();
-  });
+  init() {
+    metrics.connectionsTotal.inc();
+    metrics.connectionsActive.inc();
+
+    this.tunnel.on('close', () => {
+      metrics.connectionsActive.dec();
+      this.logger.info('websocket tunnel close:', this.address?.info());
+      if (this.proxy && !this.proxy.destroyed) this.proxy.destroy();
+      if (!this.address) return;
+      accessLog({
+        conn_id: this.address.id,
+        user: this.user.name,
+        client: this.client,
+        dest: this.address.target(),
+        bytes_up: this.bytesUp,
+        bytes_down: this.bytesDown,
+        duration_ms: Date.now() - this.start,
+      });
+    });
+
+    this.tunnel.on('error', (err) => {
+      metrics.countError(err);
+      if (this.proxy && !this.proxy.destroyed) this.proxy.destroy();
+      if (err.message.includes('WebSocket is not open') || err.message.startsWith('mux ')) {
+        this.logger.warn('websocket tunnel error:', this.address?.info(), err.message);
+      } else {
+        this.logger.error('websocket tunnel error:', this.address?.info(), err);
+      }
+    });
+  }
+
+  initDecryptor() {
+    this.decryptor.on('error', (err) => {
+      // failures before the first payload are handshake failures, likely probes
+      if (this.authenticated) {
+        errorStats.other++;
+        metrics.decryptFailures.inc({ reason: metrics.failureReason(err) });
+      } else {
+        errorStats.handshake++;
+        metrics.handshakeFailures.inc({ reason: metrics.failureReason(err) });
+      }
+
+      if (err instanceof SaltReplayError) {
+        this.logger.warn('replay rejected, total rejected %d', this.saltFilter.rejected);
+      } else {
+        this.logger.error('decryptor error', err);
+      }
+      if (this.proxy && !this.proxy.destroyed) this.proxy.destroy();
+      this.closeTunnel();
+    });
+  }
 
-  function handleProxy() {
-    const { port, host, headLeft } = address;
+  async handleProxy() {
+    const { port, hosts, headLeft } = this.address;
 
-    // connect to real remote
-    proxy = net.createConnection(port, host);
-    proxy.setTimeout(timeout);
+    // connect to real remote, any of the addresses of a domain
+    const start = Date.now();
+    let proxy: net.Socket;
+    try {
+      proxy = await connectHappyEyeballs(hosts, port);
+    } catch (err) {
+      metrics.countError(err);
+      this.logger.warn('proxy error', this.address.info(), err.message);
+      this.closeTunnel();
+      return;
+    }
+    // the tunnel closed while connecting
+    if (this.tunnel.destroyed) {
+      proxy.destroy();
+      return;
+    }
+    metrics.remoteConnectSeconds.since({}, start);
+    this.proxy = proxy;
+    proxy.setTimeout(this.timeout);
 
     proxy.on('error', (err) => {
+      metrics.countError(err);
       if (['ETIMEDOUT', 'ECONNRESET'].includes((err as any).code)) {
-        logger.warn('proxy error', address.info(), err.message);
+        this.logger.warn('proxy error', this.address.info(), err.message);
       } else {
-        logger.error('proxy error', address.info(), err);
+        this.logger.error('proxy error', this.address.info(), err);
       }
 
       if (!proxy.destroyed) proxy.destroy();
-      ws.close();
+      this.closeTunnel();
     });
 
     proxy.on('timeout', () => {
-      logger.warn('proxy timeout', address.info());
+      metrics.timeouts.inc({ side: 'remote' });
+      this.logger.warn('proxy timeout', this.address.info());
       proxy.end();
-      ws.close();
+      this.closeTunnel();
+    });
+
+    proxy.on('data', (chunk) => {
+      this.bytesDown += chunk.length;
+      userStats.addDown(this.user.name, chunk.length);
     });
 
-    proxy.once('connect', () => {
-      const encryptor = new Encryptor(config.method, config.password);
-      proxy.pipe(encryptor).pipe(tunnel);
+    const encryptor = new Encryptor(this.user.method, this.user.password, { requestSalt: this.decryptor.salt });
+    proxy.pipe(encryptor).pipe(this.download).pipe(this.tunnel);
 
-      if (headLeft) proxy.write(headLeft);
+    if (headLeft) proxy.write(headLeft);
 
-      decryptor.resume();
+    this.decryptor.resume();
+  }
+
+  async handle() {
+    let head: Buffer;
+    try {
+      ({ user: this.user, head } = await identifyUser(this.tunnel, this.userMatcher));
+    } catch (err) {
+      errorStats.handshake++;
+      metrics.handshakeFailures.inc({ reason: metrics.failureReason(err) });
+      this.logger.warn(err.message);
+      this.closeTunnel();
+      return;
+    }
+
+    this.logger = this.logger.child(this.user.name, { user: this.user.name });
+    if (!this.connections.addUser(this.tunnel, this.user.name)) {
+      metrics.connectionsRejected.inc({ scope: 'user' });
+      this.logger.warn('max_connections of the user reached, closing %s', this.client);
+      this.closeTunnel();
+      return;
+    }
+    userStats.addConnection(this.user.name);
+    this.decryptor = new Decryptor(this.user.method, this.user.password, { emitFirstPayload: true, saltFilter: this.saltFilter });
+    this.initDecryptor();
+
+    const { upload, download, release } = this.rateLimiter.connect(this.user.name);
+    this.upload = upload;
+    this.download = download;
+    this.tunnel.once('close', release);
+
+    this.decryptor.once('firstPayload', async (payload: Buffer) => {
+      this.authenticated = true;
+      this.decryptor.pause();
+
+      try {
+        this.address = await parseAddressFromSocks5Head(payload, this.resolver, this.outboundACL);
+      } catch (err) {
+        if (err instanceof ACLDeniedError) {
+          this.logger.warn('denied %s: %s', err.address.info(), err.message);
+        } else {
+          this.logger.error(err);
+        }
+        this.closeTunnel();
+        return;
+      }
+      this.logger = this.logger.with({ conn_id: this.address.id, dest: this.address.target() });
+      this.logger.info('begin proxy', this.address.info());
+      this.handleProxy();
+    });
+
+    this.decryptor.on('data', (chunk) => {
+      this.bytesUp += chunk.length;
+      userStats.addUp(this.user.name, chunk.length);
+      this.proxy?.write(chunk);
+    });
+
+    this.decryptor.on('end', () => {
+      this.proxy?.end();
     });
+
+    if (head) this.upload.write(head);
+    this.tunnel.pipe(this.upload).pipe(this.decryptor);
+  }
+}
+
+export interface IServerOptions extends IConfig {
+  logger?: Logger;
+  // shared by all connections, a salt is only accepted once server-wide
+  saltFilter?: SaltFilter;
+  // limits from the config by default
+  rateLimiter?: RateLimiter;
+  // a dns cache of its own by default
+  resolver?: Resolver;
+}
+
+export class ShadowsocksWebSocketServer {
+  private options: IServerOptions;
+  private logger: Logger;
+  private server: http.Server | https.Server;
+  private wss: WebSocketServer;
+  // websockets, or mux streams, proxying a connection
+  private connections: ConnectionTracker;
+  // shutting down, new upgrades and mux streams are refused
+  private closing: boolean;
+
+  constructor(options: IServerOptions) {
+    this.options = options;
+    this.logger = options.logger || logger;
+    this.server = null;
+    this.wss = null;
+    this.connections = new ConnectionTracker(options.max_connections, userLimitsOf(options.users));
+    this.closing = false;
   }
 
-  decryptor.once('firstPayload', async (head: Buffer) => {
-    decryptor.pause();
+  // resolves once the listener is bound, rejects with its error, e.g. EADDRINUSE
+  public async start() {
+    const saltFilter = this.options.saltFilter || new SaltFilter(this.options.salt_filter_capacity);
+    const userMatcher = new UserMatcher(getUsers(this.options));
+    const outboundACL = new OutboundACL(this.options.acl);
+    const rateLimiter = this.options.rateLimiter || new RateLimiter(rateLimitsOf(this.options));
+    const resolver = this.options.resolver || new Resolver(this.options);
+    const { connections } = this;
+
+    const { tls_cert, tls_key } = this.options;
+    this.server = tls_cert ? https.createServer({ cert: fs.readFileSync(tls_cert), key: fs.readFileSync(tls_key) }) : http.createServer();
+    this.wss = new WebSocketServer({ noServer: true });
 
+    this.server.on('request', createFallback(this.options.ws_fallback));
+
+    this.server.on('upgrade', (req: http.IncomingMessage, socket: stream.Duplex, head: Buffer) => {
+      if (!this.acceptUpgrade(req)) {
+        this.logger.warn('upgrade rejected: %s %s', req.socket.remoteAddress, req.url);
+        socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+        return;
+      }
+      if (this.closing || connections.full) {
+        metrics.connectionsRejected.inc({ scope: 'listener' });
+        this.logger.warn('%s, upgrade refused: %s', this.closing ? 'shutting down' : 'max_connections reached', req.socket.remoteAddress);
+        socket.end('HTTP/1.1 503 Service Unavailable\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+        return;
+      }
+      this.wss.handleUpgrade(req, socket, head, (ws) => this.wss.emit('connection', ws, req));
+    });
+
+    this.wss.on('connection', (ws, req: http.IncomingMessage) => {
+      const client = `${req.socket.remoteAddress}:${req.socket.remotePort}`;
+      // one shadowsocks connection per stream of a multiplexed websocket
+      if (ws.protocol === MUX_PROTOCOL) {
+        const session = new MuxSession(ws);
+        session.on('stream', (muxStream: MuxStream) => {
+          if (this.closing || !connections.add(muxStream)) {
+            metrics.connectionsRejected.inc({ scope: 'listener' });
+            muxStream.destroy();
+            return;
+          }
+          new SocketHandler(muxStream, { ...this.options, logger: this.logger, saltFilter, userMatcher, outboundACL, rateLimiter, connections, resolver, client }).handle();
+        });
+        session.on('error', (err) => {
+          this.logger.warn('mux session error:', err.message);
+        });
+        return;
+      }
+
+      const tunnel = createWebSocketStream(ws);
+      // full since the upgrade was accepted
+      if (!connections.add(tunnel)) {
+        metrics.connectionsRejected.inc({ scope: 'listener' });
+        ws.close(1013);
+        return;
+      }
+      new SocketHandler(tunnel, { ...this.options, logger: this.logger, saltFilter, userMatcher, outboundACL, rateLimiter, connections, resolver, client, close: () => ws.close() }).handle();
+    });
+
+    this.server.on('error', (err) => {
+      this.logger.error('ss websocket server error:', err);
+    });
+
+    await listen(this.server, this.options.server_port);
+    this.logger.info('ss websocket server listen at %s%s', this.options.server_port, tls_cert ? ' (wss)' : '');
+  }
+
+  // upgrades must be on ws_path and carry ws_token, as a header or a token query parameter
+  private acceptUpgrade(req: http.IncomingMessage) {
+    let url: URL;
     try {
-      address = await parseAddressFromSocks5Head(head);
+      url = new URL(req.url, 'http://localhost');
     } catch (err) {
-      logger.error(err);
-      ws.close();
-      return;
+      // e.g. // or *, which are no path at all
+      return false;
     }
-    logger.info('begin proxy', address.info());
-    handleProxy();
-  });
+    if (url.pathname !== (this.options.ws_path || '/')) return false;
 
-  decryptor.on('data', (chunk) => {
-    proxy?.write(chunk);
-  });
+    const token = this.options.ws_token;
+    if (!token) return true;
+    const given = Buffer.from((req.headers[WS_TOKEN_HEADER] as string) || url.searchParams.get('token') || '');
+    const expected = Buffer.from(token);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
 
-  decryptor.on('end', () => {
-    proxy?.end();
-  });
+  // stops accepting, open connections get timeout ms to finish before they are closed
+  public async shutdown(timeout: number) {
+    this.closing = true;
+    this.server?.close();
+    await this.connections.drain(timeout);
+    for (const ws of this.wss?.clients || []) ws.terminate();
+    this.wss?.close();
+  }
 
-  tunnel.pipe(decryptor);
-});
+  // closes the listener and every connection
+  public stop() {
+    return this.shutdown(0);
+  }
+}
 
-server.listen(config.server_port, () => {
-  logger.info('ss websocket server listen at %s', config.server_port);
-});
+if (require.main === module) {
+  const config = loadConfig('server');
+  configureLogging(config);
+  const rateLimiter = new RateLimiter(rateLimitsOf(config));
+  if (config.metrics_address) metrics.serveMetrics(config.metrics_address, logger);
+  reloadRateLimitsOnSighup('server', logger, (newConfig) => rateLimiter.update(rateLimitsOf(newConfig)));
+  const server = new ShadowsocksWebSocketServer({ logger, ...config, rateLimiter });
+  // the error is logged by the listener
+  server.start().catch(() => process.exit(1));
+  handleShutdown(logger, (config.shutdown_timeout ?? 30) * 1000, (timeout) => server.shutdown(timeout));
+}
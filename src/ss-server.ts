@@ -1,33 +1,100 @@
 #!/usr/bin/env node
 
 import * as net from 'net';
-import { config, IConfig, Method } from './config';
+import { ACLDeniedError, OutboundACL } from './acl';
+import { AuthFailureAction, cipherInfoMap, IConfig, Method } from './config';
+import { loadConfig } from './cli';
+import { ConnectionTracker, handleShutdown, userLimitsOf } from './connections';
 import { Encryptor, Decryptor } from './encrypt';
-import { Logger } from './logger';
-import { Address, parseAddressFromSocks5Head } from './utils';
+import { connectHappyEyeballs } from './happy-eyeballs';
+import { accessLog, configureLogging, Logger } from './logger';
+import * as metrics from './metrics';
+import { getFreePort, Plugin } from './plugin';
+import { RateLimiter, rateLimitsOf, reloadRateLimitsOnSighup, Throttle } from './ratelimit';
+import { Resolver } from './resolver';
+import { SaltFilter, SaltReplayError } from './salt-filter';
+import { errorStats, userStats } from './stats';
+import { UDPRelayServer } from './udp-relay';
+import { getUsers, identifyUser, IUser, UnknownUserError, UserMatcher } from './users';
+import { Address, listen, parseAddressFromSocks5Head } from './utils';
 
 const logger = new Logger('ss-server');
 
+// auth_failure drain keeps the connection for a random while in this range
+const DRAIN_MIN = 10 * 1000;
+const DRAIN_MAX = 60 * 1000;
+
 interface IOptions extends IConfig {
   logger: Logger;
+  saltFilter?: SaltFilter;
+  userMatcher: UserMatcher;
+  outboundACL?: OutboundACL;
+  rateLimiter?: RateLimiter;
+  connections?: ConnectionTracker;
+  resolver?: Resolver;
 }
 
-class SocketHandler {
+export class SocketHandler {
   private socket: net.Socket;
   private logger: Logger;
   private timeout: number;
   private cipherMethod: Method;
   private cipherPassword: string;
   private decryptor: Decryptor;
+  // throttles of the encrypted streams from and to the client
+  private upload: Throttle;
+  private download: Throttle;
   private proxy: net.Socket;
+  private saltFilter: SaltFilter;
+  private userMatcher: UserMatcher;
+  private outboundACL: OutboundACL;
+  private rateLimiter: RateLimiter;
+  private connections: ConnectionTracker;
+  private resolver: Resolver;
+  private user: IUser;
+  private address: Address;
+  // for the access log
+  private client: string;
+  private start: number;
+  private bytesUp: number;
+  private bytesDown: number;
+  private authFailure: AuthFailureAction;
+  private authFailureFallback: string;
+  // the first chunk decrypted and passed the salt filter
+  private authenticated: boolean;
+  // bytes read before authenticated, replayed to auth_failure_fallback
+  private received: Buffer[];
+  private recordChunk: (chunk: Buffer) => void;
 
   constructor(socket: net.Socket, options: IOptions) {
     this.socket = socket;
     this.logger = options.logger || logger;
     this.timeout = (options.timeout || 300) * 1000;
-    this.cipherMethod = options.method;
-    this.cipherPassword = options.password;
-    this.decryptor = new Decryptor(this.cipherMethod, this.cipherPassword, { emitFirstPayload: true });
+    this.saltFilter = options.saltFilter;
+    this.userMatcher = options.userMatcher;
+    this.outboundACL = options.outboundACL;
+    this.rateLimiter = options.rateLimiter || new RateLimiter();
+    this.connections = options.connections || new ConnectionTracker();
+    this.resolver = options.resolver || new Resolver(options);
+    this.authFailure = options.auth_failure || 'close';
+    this.authFailureFallback = options.auth_failure_fallback;
+    this.authenticated = false;
+    this.received = [];
+    this.recordChunk = (chunk) => this.received?.push(chunk);
+
+    this.address = null;
+    this.client = `${socket.remoteAddress}:${socket.remotePort}`;
+    this.start = Date.now();
+    this.bytesUp = 0;
+    this.bytesDown = 0;
+
+    // known after identifyUser
+    this.user = null;
+    this.cipherMethod = null;
+    this.cipherPassword = null;
+    this.decryptor = null;
+    this.upload = null;
+    this.download = null;
 
     this.proxy = null;
 
@@ -37,17 +104,41 @@ class SocketHandler {
   init() {
     this.socket.setTimeout(this.timeout);
     this.socket.on('error', (err) => {
+      metrics.countError(err);
       this.logger.warn('socket error');
       this.logger.error(err);
       if (!this.socket.destroyed) this.socket.destroy();
     });
 
     this.socket.on('timeout', () => {
+      metrics.timeouts.inc({ side: 'client' });
       this.logger.warn('socket timeout');
       this.socket.end();
     });
 
+    this.socket.once('close', () => {
+      if (!this.address) return;
+      accessLog({
+        conn_id: this.address.id,
+        user: this.user.name,
+        client: this.client,
+        dest: this.address.target(),
+        bytes_up: this.bytesUp,
+        bytes_down: this.bytesDown,
+        duration_ms: Date.now() - this.start,
+      });
+    });
+  }
+
+  initDecryptor() {
     this.decryptor.on('error', (err) => {
+      if (!this.authenticated) {
+        this.handshakeFailed(err);
+        return;
+      }
+
+      errorStats.other++;
+      metrics.decryptFailures.inc({ reason: metrics.failureReason(err) });
       this.logger.warn('decryptor error');
       this.logger.error(err);
       this.socket.end();
@@ -55,29 +146,108 @@ class SocketHandler {
     });
   }
 
+  // the client is likely a prober, which should not be able to tell
+  // this server from others by how the connection ends
+  private handshakeFailed(err: Error) {
+    errorStats.handshake++;
+    metrics.handshakeFailures.inc({ reason: metrics.failureReason(err) });
+    if (err instanceof SaltReplayError) {
+      this.logger.warn('replay rejected from %s, total rejected %d', this.client, this.saltFilter.rejected);
+    } else {
+      this.logger.warn('handshake failed from %s: %s, total failed %d', this.client, err.message, errorStats.handshake);
+    }
+
+    // from the upload throttle to the decryptor
+    this.socket.unpipe();
+    this.socket.removeListener('data', this.recordChunk);
+    const received = Buffer.concat(this.received);
+    this.received = null;
+
+    switch (this.authFailure) {
+      case 'drain':
+        this.drain();
+        break;
+      case 'fallback':
+        this.forward(received);
+        break;
+      default:
+        this.socket.destroy();
+    }
+  }
+
+  // read and discard until the client gives up or a random while passes
+  private drain() {
+    const timer = setTimeout(() => this.socket.destroy(), DRAIN_MIN + Math.random() * (DRAIN_MAX - DRAIN_MIN));
+    this.socket.once('close', () => clearTimeout(timer));
+    this.socket.once('end', () => this.socket.end());
+    this.socket.on('data', () => undefined);
+    this.socket.resume();
+  }
+
+  // hand the connection, from its first byte, to the service at auth_failure_fallback
+  private forward(received: Buffer) {
+    const index = this.authFailureFallback.lastIndexOf(':');
+    const host = this.authFailureFallback.slice(0, index).replace(/^\[|\]$/g, '');
+    const port = Number(this.authFailureFallback.slice(index + 1));
+
+    const fallback = net.createConnection(port, host);
+    fallback.on('error', (err) => {
+      this.logger.warn('auth failure fallback error: %s', err.message);
+      this.socket.destroy();
+    });
+    this.socket.once('close', () => fallback.destroy());
+
+    fallback.write(received);
+    this.socket.pipe(fallback).pipe(this.socket);
+  }
+
   async parseAddress(head: Buffer) {
     let address: Address;
     try {
-      address = await parseAddressFromSocks5Head(head);
+      address = await parseAddressFromSocks5Head(head, this.resolver, this.outboundACL);
     } catch (err) {
-      this.logger.error(err);
+      if (err instanceof ACLDeniedError) {
+        this.logger.warn('denied %s: %s', err.address.info(), err.message);
+      } else {
+        this.logger.error(err);
+      }
       this.socket.end();
       return;
     }
 
-    logger.info(address.info());
+    this.address = address;
+    this.logger = this.logger.with({ conn_id: address.id, dest: address.target() });
+    this.logger.info(address.info());
 
     this.handleProxy(address);
   }
 
-  handleProxy(address: Address) {
-    const { port, host, headLeft } = address;
+  async handleProxy(address: Address) {
+    const { port, hosts, headLeft } = address;
 
-    // connect to real remote
-    const proxy = (this.proxy = net.createConnection(port, host));
+    // connect to real remote, any of the addresses of a domain
+    const start = Date.now();
+    let proxy: net.Socket;
+    try {
+      proxy = await connectHappyEyeballs(hosts, port);
+    } catch (err) {
+      metrics.countError(err);
+      this.logger.warn('proxy error');
+      this.logger.error(err);
+      this.socket.end();
+      return;
+    }
+    // the client left while connecting
+    if (this.socket.destroyed) {
+      proxy.destroy();
+      return;
+    }
+    metrics.remoteConnectSeconds.since({}, start);
+    this.proxy = proxy;
     proxy.setTimeout(this.timeout);
 
     proxy.on('error', (err) => {
+      metrics.countError(err);
       this.logger.warn('proxy error');
       this.logger.error(err);
       if (!proxy.destroyed) proxy.destroy();
@@ -85,53 +255,205 @@ class SocketHandler {
     });
 
     proxy.on('timeout', () => {
+      metrics.timeouts.inc({ side: 'remote' });
       this.logger.warn('proxy timeout');
       proxy.end();
       this.socket.end();
     });
 
-    proxy.once('connect', () => {
-      const encryptor = new Encryptor(this.cipherMethod, this.cipherPassword);
-      proxy.pipe(encryptor).pipe(this.socket);
+    proxy.on('data', (chunk) => {
+      this.bytesDown += chunk.length;
+      userStats.addDown(this.user.name, chunk.length);
+    });
+
+    const encryptor = new Encryptor(this.cipherMethod, this.cipherPassword, { requestSalt: this.decryptor.salt });
+    proxy.pipe(encryptor).pipe(this.download).pipe(this.socket);
 
-      if (headLeft) proxy.write(headLeft);
+    if (headLeft) proxy.write(headLeft);
 
-      this.decryptor.resume();
-    });
+    this.decryptor.resume();
   }
 
   async handle() {
+    let head: Buffer;
+    try {
+      ({ user: this.user, head } = await identifyUser(this.socket, this.userMatcher));
+    } catch (err) {
+      if (err instanceof UnknownUserError) {
+        this.received = [err.head];
+        this.handshakeFailed(err);
+      } else {
+        errorStats.handshake++;
+        metrics.handshakeFailures.inc({ reason: metrics.failureReason(err) });
+        this.logger.warn('%s from %s', err.message, this.client);
+        this.socket.destroy();
+      }
+      return;
+    }
+
+    this.logger = this.logger.child(this.user.name, { user: this.user.name });
+    if (!this.connections.addUser(this.socket, this.user.name)) {
+      metrics.connectionsRejected.inc({ scope: 'user' });
+      this.logger.warn('max_connections of the user reached, closing %s', this.client);
+      this.socket.destroy();
+      return;
+    }
+    this.cipherMethod = this.user.method;
+    this.cipherPassword = this.user.password;
+    this.decryptor = new Decryptor(this.cipherMethod, this.cipherPassword, { emitFirstPayload: true, saltFilter: this.saltFilter });
+    this.initDecryptor();
+    userStats.addConnection(this.user.name);
+
+    const { upload, download, release } = this.rateLimiter.connect(this.user.name);
+    this.upload = upload;
+    this.download = download;
+    this.socket.once('close', release);
+
     this.decryptor.once('firstPayload', (payload: Buffer) => {
+      this.authenticated = true;
+      this.socket.removeListener('data', this.recordChunk);
+      this.received = null;
+
       this.decryptor.pause();
       this.parseAddress(payload);
     });
 
     this.decryptor.on('data', (chunk) => {
-      this.proxy.write(chunk);
+      this.bytesUp += chunk.length;
+      userStats.addUp(this.user.name, chunk.length);
+      this.proxy?.write(chunk);
     });
 
     this.decryptor.on('end', () => {
-      this.proxy.end();
+      this.proxy?.end();
     });
 
-    this.socket.pipe(this.decryptor);
+    if (this.authFailure === 'fallback') {
+      if (head) this.received.push(head);
+      this.socket.on('data', this.recordChunk);
+    }
+    if (head) this.upload.write(head);
+    this.socket.pipe(this.upload).pipe(this.decryptor);
   }
 }
 
-net
-  .createServer((socket) => {
-    new SocketHandler(socket, { logger, ...config }).handle();
-  })
-  .listen(config.server_port, () => {
-    logger.info('ss server listen at %s', config.server_port);
-  });
+export interface IServerOptions extends IConfig {
+  logger?: Logger;
+  // shared by all handlers, a salt is only accepted once server-wide
+  saltFilter?: SaltFilter;
+  // limits from the config by default, ss-manager shares one between its ports
+  rateLimiter?: RateLimiter;
+  // like rateLimiter, along with its dns cache
+  resolver?: Resolver;
+}
 
-process.on('uncaughtException', (err) => {
-  logger.warn('uncaughtException');
-  logger.error(err);
-});
+// tcp listener and udp relay on server_port
+export class ShadowsocksServer {
+  private options: IServerOptions;
+  private logger: Logger;
+  private server: net.Server;
+  private udpRelay: UDPRelayServer;
+  private plugin: Plugin;
+  private connections: ConnectionTracker;
+
+  constructor(options: IServerOptions) {
+    this.options = options;
+    this.logger = options.logger || logger;
+    this.server = null;
+    this.udpRelay = null;
+    this.plugin = null;
+    this.connections = new ConnectionTracker(options.max_connections, userLimitsOf(options.users));
+  }
+
+  // resolves once the tcp listener is bound, rejects with its error, e.g. EADDRINUSE
+  public async start() {
+    const saltFilter = this.options.saltFilter || new SaltFilter(this.options.salt_filter_capacity);
+    const users = getUsers(this.options);
+    const userMatcher = new UserMatcher(users);
+    const outboundACL = new OutboundACL(this.options.acl);
+    const rateLimiter = this.options.rateLimiter || new RateLimiter(rateLimitsOf(this.options));
+    const resolver = this.options.resolver || new Resolver(this.options);
+
+    const { connections } = this;
+    this.server = net.createServer((socket) => {
+      // nothing to reply with before the handshake, the client just sees a close
+      if (!connections.add(socket)) {
+        metrics.connectionsRejected.inc({ scope: 'listener' });
+        this.logger.warn('max_connections %d reached, closing %s:%s', this.options.max_connections, socket.remoteAddress, socket.remotePort);
+        socket.destroy();
+        return;
+      }
+      metrics.connectionsTotal.inc();
+      metrics.connectionsActive.inc();
+      socket.on('close', () => metrics.connectionsActive.dec());
+      new SocketHandler(socket, { ...this.options, logger: this.logger, saltFilter, userMatcher, outboundACL, rateLimiter, connections, resolver }).handle();
+    });
 
-process.on('unhandledRejection', (err) => {
-  logger.warn('unhandledRejection');
-  logger.error(err);
-});
+    this.server.on('error', (err) => {
+      this.logger.error('ss server error:', err);
+    });
+
+    // a plugin takes server_port and forwards to the tcp listener on a loopback port
+    const { server_port, plugin, plugin_opts } = this.options;
+    if (plugin) {
+      const localPort = await getFreePort();
+      this.plugin = new Plugin({ plugin, plugin_opts, remoteHost: '0.0.0.0', remotePort: server_port, localHost: '127.0.0.1', localPort, logger: this.logger });
+      this.plugin.start();
+      await listen(this.server, localPort, '127.0.0.1');
+      this.logger.info('ss server listen at 127.0.0.1:%s behind plugin %s on %s', localPort, plugin, server_port);
+    } else {
+      await listen(this.server, server_port);
+      this.logger.info('ss server listen at %s', server_port);
+    }
+
+    // sip022 udp is not supported
+    const udpUsers = users.filter((user) => !cipherInfoMap[user.method].sip022);
+    if (udpUsers.length) {
+      this.udpRelay = new UDPRelayServer({
+        port: server_port,
+        users: udpUsers,
+        timeout: this.options.timeout,
+        saltFilter,
+        outboundACL,
+        resolver,
+        logger: this.logger,
+      });
+      this.udpRelay.start();
+    }
+  }
+
+  // stops accepting, open connections get timeout ms to finish before they are closed
+  public async shutdown(timeout: number) {
+    this.server?.close();
+    this.udpRelay?.stop();
+    await this.connections.drain(timeout);
+    this.plugin?.stop();
+  }
+
+  // closes the listeners and every connection
+  public stop() {
+    return this.shutdown(0);
+  }
+}
+
+if (require.main === module) {
+  const config = loadConfig('server');
+  configureLogging(config);
+  const rateLimiter = new RateLimiter(rateLimitsOf(config));
+  if (config.metrics_address) metrics.serveMetrics(config.metrics_address, logger);
+  reloadRateLimitsOnSighup('server', logger, (newConfig) => rateLimiter.update(rateLimitsOf(newConfig)));
+  const server = new ShadowsocksServer({ logger, ...config, rateLimiter });
+  // the error is logged by the listener
+  server.start().catch(() => process.exit(1));
+  handleShutdown(logger, (config.shutdown_timeout ?? 30) * 1000, (timeout) => server.shutdown(timeout));
+
+  process.on('uncaughtException', (err) => {
+    logger.warn('uncaughtException');
+    logger.error(err);
+  });
+
+  process.on('unhandledRejection', (err) => {
+    logger.warn('unhandledRejection');
+    logger.error(err);
+  });
+}
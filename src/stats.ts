@@ -0,0 +1,52 @@
+export interface ITrafficStat {
+  connections: number;
+  bytesUp: number;
+  bytesDown: number;
+}
+
+// cumulative traffic grouped by key, e.g. user name
+export class TrafficStats {
+  private stats: Map<string, ITrafficStat>;
+
+  constructor() {
+    this.stats = new Map();
+  }
+
+  get(key: string) {
+    let stat = this.stats.get(key);
+    if (!stat) {
+      stat = { connections: 0, bytesUp: 0, bytesDown: 0 };
+      this.stats.set(key, stat);
+    }
+    return stat;
+  }
+
+  addConnection(key: string) {
+    this.get(key).connections++;
+  }
+
+  addUp(key: string, bytes: number) {
+    this.get(key).bytesUp += bytes;
+  }
+
+  addDown(key: string, bytes: number) {
+    this.get(key).bytesDown += bytes;
+  }
+
+  delete(key: string) {
+    this.stats.delete(key);
+  }
+
+  entries() {
+    return this.stats.entries();
+  }
+}
+
+export const userStats = new TrafficStats();
+
+// connections the server gave up on: handshake failures (wrong key, garbage, replays)
+// are likely probes and kept apart from errors of authenticated connections
+export const errorStats = {
+  handshake: 0,
+  other: 0,
+};
@@ -0,0 +1,116 @@
+import * as stream from 'stream';
+import * as net from 'net';
+import { WebSocket, createWebSocketStream } from 'ws';
+import { IServerConfig } from './config';
+import { MuxSession, MUX_PROTOCOL } from './mux';
+
+// how long to wait for the tunnel to the server being established
+const CONNECT_TIMEOUT = 10 * 1000;
+// websockets per server in mux mode
+const MUX_CONNECTIONS = 4;
+
+// carries ws_token on the upgrade request, the server also takes a token query parameter
+export const WS_TOKEN_HEADER = 'x-ss-token';
+
+function connectTcp(upstream: IServerConfig, connectTimeout: number): Promise<stream.Duplex> {
+  return new Promise((resolve, reject) => {
+    const tunnel = net.createConnection(upstream.server_port, upstream.server);
+
+    const timer = setTimeout(() => {
+      tunnel.destroy();
+      reject(new Error('tcp tunnel connect timeout'));
+    }, connectTimeout);
+
+    tunnel.once('error', (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+
+    tunnel.once('connect', () => {
+      clearTimeout(timer);
+      resolve(tunnel);
+    });
+  });
+}
+
+function endpointOf(upstream: IServerConfig) {
+  if (upstream.server.startsWith('ws')) return upstream.server;
+  return `${upstream.tunnel}://${upstream.server}:${upstream.server_port}${upstream.ws_path || '/'}`;
+}
+
+function openWebSocket(endpoint: string, token: string, connectTimeout: number, protocol?: string): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const headers = token ? { [WS_TOKEN_HEADER]: token } : {};
+    const ws = new WebSocket(endpoint, protocol, { handshakeTimeout: connectTimeout, headers });
+
+    ws.once('error', reject);
+    ws.once('open', () => {
+      ws.removeListener('error', reject);
+      resolve(ws);
+    });
+  });
+}
+
+// long-lived websockets of one server, streams are spread over them in turn
+class MuxPool {
+  private endpoint: string;
+  private token: string;
+  private sessions: Promise<MuxSession>[];
+  private next: number;
+
+  constructor(endpoint: string, token: string, size: number) {
+    this.endpoint = endpoint;
+    this.token = token;
+    this.sessions = new Array(size).fill(null);
+    this.next = 0;
+  }
+
+  // connects the slot when it has no session, or its session closed
+  private session(index: number, connectTimeout: number) {
+    if (this.sessions[index]) return this.sessions[index];
+
+    const session = openWebSocket(this.endpoint, this.token, connectTimeout, MUX_PROTOCOL).then((ws) => {
+      const muxSession = new MuxSession(ws);
+      muxSession.on('error', () => ws.terminate());
+      muxSession.on('close', () => {
+        if (this.sessions[index] === session) this.sessions[index] = null;
+      });
+      return muxSession;
+    });
+    session.catch(() => {
+      if (this.sessions[index] === session) this.sessions[index] = null;
+    });
+    this.sessions[index] = session;
+    return session;
+  }
+
+  async open(connectTimeout: number): Promise<stream.Duplex> {
+    const index = this.next++ % this.sessions.length;
+    return (await this.session(index, connectTimeout)).open();
+  }
+}
+
+const muxPools = new Map<string, MuxPool>();
+
+function connectWebSocket(upstream: IServerConfig, connectTimeout: number): Promise<stream.Duplex> {
+  const endpoint = endpointOf(upstream);
+
+  if (upstream.mux) {
+    let pool = muxPools.get(endpoint);
+    if (!pool) {
+      pool = new MuxPool(endpoint, upstream.ws_token, upstream.mux_connections || MUX_CONNECTIONS);
+      muxPools.set(endpoint, pool);
+    }
+    return pool.open(connectTimeout);
+  }
+
+  return openWebSocket(endpoint, upstream.ws_token, connectTimeout).then((ws) => createWebSocketStream(ws));
+}
+
+// resolves once the tunnel to the server is usable, rejects if it cannot be established
+export function connectTunnel(upstream: IServerConfig, connectTimeout = CONNECT_TIMEOUT) {
+  if (upstream.tunnel === 'ws' || upstream.tunnel === 'wss') {
+    return connectWebSocket(upstream, connectTimeout);
+  }
+  return connectTcp(upstream, connectTimeout);
+}
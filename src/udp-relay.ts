@@ -0,0 +1,310 @@
+import * as dgram from 'dgram';
+import * as net from 'net';
+import { cipherInfoMap, Method } from './config';
+import { encryptPacket, decryptPacket } from './encrypt';
+import { ACLDeniedError, OutboundACL } from './acl';
+import { Logger } from './logger';
+import { Resolver } from './resolver';
+import { SaltFilter, SaltReplayError } from './salt-filter';
+import { userStats } from './stats';
+import { IUser } from './users';
+import { encodeSocks5Head, parseAddressFromSocks5Head } from './utils';
+
+const logger = new Logger('udp-relay');
+
+const endpoint = (rinfo: dgram.RemoteInfo) => `${rinfo.address}:${rinfo.port}`;
+
+// udp is connectionless, every client endpoint gets its own outbound socket
+// and the mapping expires after `timeout` ms without any packet
+class NatTable {
+  private timeout: number;
+  private entries: Map<string, { socket: dgram.Socket; timer: NodeJS.Timeout }>;
+
+  constructor(timeout: number) {
+    this.timeout = timeout;
+    this.entries = new Map();
+  }
+
+  get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    entry.timer.refresh();
+    return entry.socket;
+  }
+
+  set(key: string, socket: dgram.Socket) {
+    const timer = setTimeout(() => this.delete(key), this.timeout);
+    this.entries.set(key, { socket, timer });
+  }
+
+  delete(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    clearTimeout(entry.timer);
+    entry.socket.close();
+  }
+
+  clear() {
+    for (const key of [...this.entries.keys()]) this.delete(key);
+  }
+}
+
+interface IUDPRelayLocalOptions {
+  address: string;
+  port: number;
+  server: string;
+  server_port: number;
+  method: Method;
+  password: string;
+  timeout: number;
+  logger?: Logger;
+  // ss-tunnel, every packet goes to this destination, without socks5 headers or an association
+  target?: { host: string; port: number };
+}
+
+// socks5 side of the relay, bound next to the tcp listener
+export class UDPRelayLocal {
+  private address: string;
+  private port: number;
+  private server: string;
+  private server_port: number;
+  private cipherMethod: Method;
+  private cipherPassword: string;
+  private logger: Logger;
+  private socket: dgram.Socket;
+  private nat: NatTable;
+  // socks5 head of options.target
+  private target: Buffer;
+  // client ip -> count of alive UDP ASSOCIATE control connections
+  private associated: Map<string, number>;
+
+  constructor(options: IUDPRelayLocalOptions) {
+    this.address = options.address;
+    this.port = options.port;
+    this.server = options.server;
+    this.server_port = options.server_port;
+    this.cipherMethod = options.method;
+    this.cipherPassword = options.password;
+    this.logger = options.logger || logger;
+    this.socket = dgram.createSocket(net.isIPv6(this.address) ? 'udp6' : 'udp4');
+    this.nat = new NatTable((options.timeout || 300) * 1000);
+    this.target = options.target ? encodeSocks5Head(options.target.host, options.target.port) : null;
+    this.associated = new Map();
+  }
+
+  // the association lives as long as the tcp connection which requested it,
+  // call the returned function when that connection closes
+  associate(clientHost: string) {
+    // tcp listener is dual stack, udp one is not
+    clientHost = clientHost.replace(/^::ffff:/, '');
+    this.associated.set(clientHost, (this.associated.get(clientHost) || 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const count = this.associated.get(clientHost) - 1;
+      if (count > 0) this.associated.set(clientHost, count);
+      else this.associated.delete(clientHost);
+    };
+  }
+
+  //   +----+------+------+----------+----------+----------+
+  //   |RSV | FRAG | ATYP | DST.ADDR | DST.PORT |   DATA   |
+  //   +----+------+------+----------+----------+----------+
+  //   | 2  |  1   |  1   | Variable |    2     | Variable |
+  //   +----+------+------+----------+----------+----------+
+  // shadowsocks udp payload is the socks5 one without RSV and FRAG, null to drop msg
+  private async socks5Payload(msg: Buffer, rinfo: dgram.RemoteInfo) {
+    if (!this.associated.has(rinfo.address)) {
+      this.logger.warn('udp packet from unassociated client %s', endpoint(rinfo));
+      return null;
+    }
+    if (msg.length < 4) return null;
+    // fragmentation is not supported, drop
+    if (msg[2] !== 0x00) return null;
+
+    const payload = msg.slice(3);
+    try {
+      const address = await parseAddressFromSocks5Head(payload);
+      this.logger.debug('udp %s ->', endpoint(rinfo), address.info());
+    } catch (err) {
+      this.logger.warn('udp invalid socks5 header from %s', endpoint(rinfo), err.message);
+      return null;
+    }
+    return payload;
+  }
+
+  private async handleClientMessage(msg: Buffer, rinfo: dgram.RemoteInfo) {
+    const payload = this.target ? Buffer.concat([this.target, msg]) : await this.socks5Payload(msg, rinfo);
+    if (!payload) return;
+
+    const key = endpoint(rinfo);
+    let tunnel = this.nat.get(key);
+    if (!tunnel) {
+      tunnel = dgram.createSocket(net.isIPv6(this.server) ? 'udp6' : 'udp4');
+      tunnel.on('message', async (packet) => {
+        let reply: Buffer;
+        try {
+          const data = decryptPacket(this.cipherMethod, this.cipherPassword, packet);
+          // ss-tunnel clients get the bare payload, without the address it came from
+          reply = this.target ? (await parseAddressFromSocks5Head(data)).headLeft : Buffer.concat([Buffer.from([0x00, 0x00, 0x00]), data]);
+        } catch (err) {
+          this.logger.warn('udp decrypt error', key, err.message);
+          return;
+        }
+        this.nat.get(key);
+        if (reply) this.socket.send(reply, rinfo.port, rinfo.address);
+      });
+      tunnel.on('error', (err) => {
+        this.logger.error('udp tunnel error', key, err);
+        this.nat.delete(key);
+      });
+      this.nat.set(key, tunnel);
+    }
+
+    tunnel.send(encryptPacket(this.cipherMethod, this.cipherPassword, payload), this.server_port, this.server);
+  }
+
+  public start() {
+    this.socket.on('message', (msg, rinfo) => {
+      this.handleClientMessage(msg, rinfo);
+    });
+
+    this.socket.on('error', (err) => {
+      this.logger.error('udp relay error:', err);
+    });
+
+    this.socket.bind(this.port, this.address, () => {
+      this.logger.info('udp relay listen at %s', this.port);
+    });
+  }
+}
+
+interface IUDPRelayServerOptions {
+  // ip to bind, all addresses like the tcp listener by default
+  address?: string;
+  port: number;
+  users: IUser[];
+  timeout: number;
+  logger?: Logger;
+  saltFilter?: SaltFilter;
+  outboundACL?: OutboundACL;
+  resolver?: Resolver;
+}
+
+// server side of the relay, forwards decrypted packets to their destination
+export class UDPRelayServer {
+  private address: string;
+  private port: number;
+  private users: IUser[];
+  private logger: Logger;
+  private socket: dgram.Socket;
+  private nat: NatTable;
+  private saltFilter: SaltFilter;
+  private outboundACL: OutboundACL;
+  private resolver: Resolver;
+
+  constructor(options: IUDPRelayServerOptions) {
+    this.address = options.address || '::';
+    this.port = options.port;
+    this.users = options.users;
+    this.logger = options.logger || logger;
+    this.socket = dgram.createSocket(net.isIPv6(this.address) ? 'udp6' : 'udp4');
+    this.nat = new NatTable((options.timeout || 300) * 1000);
+    this.saltFilter = options.saltFilter || null;
+    this.outboundACL = options.outboundACL || null;
+    this.resolver = options.resolver || new Resolver();
+  }
+
+  // tries every user's key, the salt filter is only consulted for the matching one
+  private decrypt(packet: Buffer) {
+    for (const user of this.users) {
+      let payload: Buffer;
+      try {
+        payload = decryptPacket(user.method, user.password, packet);
+      } catch (err) {
+        continue;
+      }
+      if (this.saltFilter && !this.saltFilter.check(packet.slice(0, cipherInfoMap[user.method].saltLen))) {
+        throw new SaltReplayError();
+      }
+      return { user, payload };
+    }
+    throw new Error('no user matched');
+  }
+
+  private async handleClientMessage(packet: Buffer, rinfo: dgram.RemoteInfo) {
+    let user: IUser;
+    let payload: Buffer;
+    try {
+      ({ user, payload } = this.decrypt(packet));
+    } catch (err) {
+      this.logger.warn('udp decrypt error', endpoint(rinfo), err.message);
+      return;
+    }
+    userStats.addUp(user.name, payload.length);
+
+    let address;
+    try {
+      address = await parseAddressFromSocks5Head(payload, this.resolver, this.outboundACL);
+    } catch (err) {
+      if (err instanceof ACLDeniedError) {
+        this.logger.warn('udp denied %s %s: %s', user.name, err.address.info(), err.message);
+      } else {
+        this.logger.warn('udp invalid address from %s', endpoint(rinfo), err.message);
+      }
+      return;
+    }
+    if (!address.headLeft) return;
+
+    const family = net.isIPv6(address.host) ? 'udp6' : 'udp4';
+    const key = `${endpoint(rinfo)}|${family}|${user.name}`;
+    let proxy = this.nat.get(key);
+    if (!proxy) {
+      this.logger.info('udp', user.name, endpoint(rinfo), address.info());
+      proxy = dgram.createSocket(family);
+      proxy.on('message', (data, from) => {
+        this.nat.get(key);
+        userStats.addDown(user.name, data.length);
+        const reply = Buffer.concat([encodeSocks5Head(from.address, from.port), data]);
+        this.socket.send(encryptPacket(user.method, user.password, reply), rinfo.port, rinfo.address);
+      });
+      proxy.on('error', (err) => {
+        this.logger.error('udp proxy error', key, err);
+        this.nat.delete(key);
+      });
+      this.nat.set(key, proxy);
+    }
+
+    proxy.send(address.headLeft, address.port, address.host);
+  }
+
+  public start() {
+    this.socket.on('message', (packet, rinfo) => {
+      this.handleClientMessage(packet, rinfo);
+    });
+
+    this.socket.on('error', (err: NodeJS.ErrnoException) => {
+      // a host without ipv6 gets all ipv4 addresses, as the tcp listener does
+      if (err.code === 'EAFNOSUPPORT' && this.address === '::') {
+        this.socket.close();
+        this.address = '0.0.0.0';
+        this.socket = dgram.createSocket('udp4');
+        this.start();
+        return;
+      }
+      this.logger.error('udp relay error:', err);
+    });
+
+    this.socket.bind(this.port, this.address, () => {
+      this.logger.info('udp relay listen at %s', this.port);
+    });
+  }
+
+  public stop() {
+    this.nat.clear();
+    this.socket.close();
+  }
+}
@@ -0,0 +1,203 @@
+import * as crypto from 'crypto';
+import * as stream from 'stream';
+import { URL } from 'url';
+import { BalanceStrategy, IConfig, IHealthCheckConfig, IServerConfig } from './config';
+import { Encryptor, Decryptor } from './encrypt';
+import { Logger } from './logger';
+import { countError, upstreamConnectSeconds } from './metrics';
+import { connectTunnel } from './tunnel';
+import { encodeSocks5Head } from './utils';
+
+const logger = new Logger('upstream');
+
+// virtual nodes per server on the consistent hash ring
+const RING_REPLICAS = 100;
+
+// servers list, or the top level server as the only one
+export function getServers(config: IConfig): IServerConfig[] {
+  const servers: IServerConfig[] = config.servers?.length ? config.servers : [config];
+  return servers.map((server) => ({
+    name: server.name || `${server.server}:${server.server_port}`,
+    server: server.server,
+    server_port: server.server_port,
+    password: server.password,
+    method: server.method,
+    tunnel: server.tunnel || config.tunnel || 'tcp',
+    plugin: server.plugin,
+    plugin_opts: server.plugin_opts,
+    mux: server.mux ?? config.mux,
+    mux_connections: server.mux_connections ?? config.mux_connections,
+    ws_path: server.ws_path ?? config.ws_path,
+    ws_token: server.ws_token ?? config.ws_token,
+  }));
+}
+
+function hash(key: string) {
+  return crypto.createHash('md5').update(key).digest().readUInt32BE(0);
+}
+
+export class Upstream {
+  public config: IServerConfig;
+  public name: string;
+  public alive: boolean;
+  // ms of the last successful health check
+  public latency: number;
+
+  constructor(config: IServerConfig) {
+    this.config = config;
+    this.name = config.name;
+    this.alive = true;
+    this.latency = Infinity;
+  }
+}
+
+interface IUpstreamPoolOptions {
+  balance?: BalanceStrategy;
+  health_check?: IHealthCheckConfig;
+  logger?: Logger;
+}
+
+export class UpstreamPool {
+  private upstreams: Upstream[];
+  private balance: BalanceStrategy;
+  private healthCheckUrl: URL;
+  private healthCheckInterval: number;
+  private healthCheckTimeout: number;
+  private logger: Logger;
+  private ring: { hash: number; upstream: Upstream }[];
+  private roundRobinIndex: number;
+
+  constructor(servers: IServerConfig[], options: IUpstreamPoolOptions = {}) {
+    this.upstreams = servers.map((server) => new Upstream(server));
+    this.balance = options.balance || 'failover';
+    this.healthCheckUrl = new URL(options.health_check?.url || 'http://www.gstatic.com/generate_204');
+    this.healthCheckInterval = (options.health_check?.interval || 60) * 1000;
+    this.healthCheckTimeout = (options.health_check?.timeout || 5) * 1000;
+    this.logger = options.logger || logger;
+    this.roundRobinIndex = 0;
+
+    this.ring = [];
+    for (const upstream of this.upstreams) {
+      for (let i = 0; i < RING_REPLICAS; i++) {
+        this.ring.push({ hash: hash(`${upstream.name}#${i}`), upstream });
+      }
+    }
+    this.ring.sort((a, b) => a.hash - b.hash);
+  }
+
+  // servers walked clockwise from the position of key on the ring
+  private ringOrder(key: string) {
+    const keyHash = hash(key);
+    let start = this.ring.findIndex((node) => node.hash >= keyHash);
+    if (start === -1) start = 0;
+
+    const ordered = new Set<Upstream>();
+    for (let i = 0; i < this.ring.length && ordered.size < this.upstreams.length; i++) {
+      ordered.add(this.ring[(start + i) % this.ring.length].upstream);
+    }
+    return [...ordered];
+  }
+
+  // servers to try in order for a destination: alive ones ordered by the
+  // balance strategy, then the dead ones as a last resort
+  candidates(key: string) {
+    let ordered: Upstream[];
+    switch (this.balance) {
+      case 'round-robin': {
+        const index = this.roundRobinIndex++ % this.upstreams.length;
+        ordered = [...this.upstreams.slice(index), ...this.upstreams.slice(0, index)];
+        break;
+      }
+      case 'least-latency':
+        ordered = [...this.upstreams].sort((a, b) => a.latency - b.latency);
+        break;
+      case 'consistent-hash':
+        ordered = this.ringOrder(key);
+        break;
+      default:
+        ordered = this.upstreams;
+    }
+
+    return [...ordered.filter((upstream) => upstream.alive), ...ordered.filter((upstream) => !upstream.alive)];
+  }
+
+  // key is the destination, used by consistent-hash
+  async connect(key: string): Promise<{ upstream: Upstream; tunnel: stream.Duplex }> {
+    let lastError: Error;
+    for (const upstream of this.candidates(key)) {
+      const start = Date.now();
+      try {
+        const tunnel = await connectTunnel(upstream.config);
+        upstreamConnectSeconds.since({ server: upstream.name }, start);
+        return { upstream, tunnel };
+      } catch (err) {
+        lastError = err;
+        countError(err);
+        this.logger.warn('connect %s failed: %s', upstream.name, err.message);
+        // revived by the next successful health check
+        if (this.upstreams.length > 1) upstream.alive = false;
+      }
+    }
+    throw lastError;
+  }
+
+  // time until the first byte of response through the server
+  private async probe(upstream: Upstream) {
+    const { method, password } = upstream.config;
+    const url = this.healthCheckUrl;
+    const start = Date.now();
+    const tunnel = await connectTunnel(upstream.config, this.healthCheckTimeout);
+
+    try {
+      await new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('health check timeout')), this.healthCheckTimeout - (Date.now() - start));
+        const fail = (err: Error) => {
+          clearTimeout(timer);
+          reject(err);
+        };
+
+        const encryptor = new Encryptor(method, password);
+        const decryptor = new Decryptor(method, password, { requestSalt: encryptor.salt });
+        encryptor.pipe(tunnel);
+        tunnel.pipe(decryptor);
+
+        decryptor.once('data', () => {
+          clearTimeout(timer);
+          resolve(null);
+        });
+        decryptor.once('error', fail);
+        tunnel.once('error', fail);
+        tunnel.once('close', () => fail(new Error('tunnel closed')));
+
+        encryptor.write(encodeSocks5Head(url.hostname, Number(url.port) || 80));
+        encryptor.write(`GET ${url.pathname}${url.search} HTTP/1.1\r\nHost: ${url.host}\r\nConnection: close\r\n\r\n`);
+      });
+    } finally {
+      tunnel.destroy();
+    }
+
+    return Date.now() - start;
+  }
+
+  private async check(upstream: Upstream) {
+    try {
+      upstream.latency = await this.probe(upstream);
+      if (!upstream.alive) this.logger.info('%s is up', upstream.name);
+      upstream.alive = true;
+      this.logger.debug('%s latency %d ms', upstream.name, upstream.latency);
+    } catch (err) {
+      if (upstream.alive) this.logger.warn('%s is down: %s', upstream.name, err.message);
+      upstream.alive = false;
+      upstream.latency = Infinity;
+    }
+  }
+
+  // only with more than one server, a single one is always used anyway
+  startHealthCheck() {
+    if (this.upstreams.length < 2) return;
+
+    const checkAll = () => Promise.all(this.upstreams.map((upstream) => this.check(upstream)));
+    checkAll();
+    setInterval(checkAll, this.healthCheckInterval).unref();
+  }
+}
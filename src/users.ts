@@ -0,0 +1,87 @@
+import * as stream from 'stream';
+import { IConfig, Method } from './config';
+import { firstChunkLength, tryFirstChunk } from './encrypt';
+
+// the head did not decrypt with any user's key
+export class UnknownUserError extends Error {
+  public head: Buffer;
+
+  constructor(head: Buffer) {
+    super('no user matched');
+    this.name = 'UnknownUserError';
+    this.head = head;
+  }
+}
+
+export interface IUser {
+  name: string;
+  password: string;
+  method: Method;
+}
+
+// users from config, or the single password/method pair as user "default"
+export function getUsers(config: IConfig): IUser[] {
+  if (config.users?.length) {
+    return config.users.map((user) => ({ name: user.name, password: user.password, method: user.method || config.method }));
+  }
+  return [{ name: 'default', password: config.password, method: config.method }];
+}
+
+export class UserMatcher {
+  public users: IUser[];
+
+  constructor(users: IUser[]) {
+    this.users = users;
+  }
+
+  // the user whose key decrypts data, trying each user not in tried once data has its first chunk
+  match(data: Buffer, tried: Set<IUser>) {
+    for (const user of this.users) {
+      if (tried.has(user) || data.length < firstChunkLength(user.method)) continue;
+      tried.add(user);
+      if (tryFirstChunk(user.method, user.password, data)) return user;
+    }
+    return null;
+  }
+}
+
+// reads the beginning of the stream and finds whose key it was encrypted with,
+// the stream is left paused and the bytes read are returned as head
+export function identifyUser(readable: stream.Readable, matcher: UserMatcher): Promise<{ user: IUser; head: Buffer }> {
+  if (matcher.users.length === 1) {
+    return Promise.resolve({ user: matcher.users[0], head: null });
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const tried = new Set<IUser>();
+
+    const cleanup = () => {
+      readable.removeListener('data', onData);
+      readable.removeListener('end', onEnd);
+      readable.removeListener('close', onEnd);
+    };
+
+    const onData = (chunk: Buffer) => {
+      chunks.push(chunk);
+      const head = Buffer.concat(chunks);
+      const user = matcher.match(head, tried);
+      // users of methods with a longer first chunk are waited for
+      if (!user && tried.size < matcher.users.length) return;
+
+      cleanup();
+      readable.pause();
+      if (!user) return reject(new UnknownUserError(head));
+      resolve({ user, head });
+    };
+
+    const onEnd = () => {
+      cleanup();
+      reject(new Error('closed before user identified'));
+    };
+
+    readable.on('data', onData);
+    readable.once('end', onEnd);
+    readable.once('close', onEnd);
+  });
+}
@@ -1,28 +1,17 @@
-import * as dns from 'dns/promises';
-import * as LRU from 'lru-cache';
 import * as isIP from 'is-ip';
-import { Singleflight } from '@zcong/singleflight';
 import * as ipv6 from './ipv6';
+import * as net from 'net';
 import * as util from 'util';
 import { Logger } from './logger';
+import { ILocalUser } from './config';
+import { ACLDeniedError, OutboundACL } from './acl';
+import { dnsLookupSeconds } from './metrics';
+import { Resolver } from './resolver';
 
 const logger = new Logger('utils');
 
-const sf = new Singleflight();
-const cache = new LRU<string, string>({ max: 100, ttl: 1000 * 60 });
-
-async function rawLookup(hostname: string) {
-  const resp = await dns.lookup(hostname, { family: 4 });
-  return resp.address;
-}
-
-async function lookup(hostname: string) {
-  let resp = cache.get(hostname);
-  if (resp !== undefined) return resp;
-
-  resp = await sf.do(hostname, () => rawLookup(hostname));
-  cache.set(hostname, resp || null);
-  return resp;
+export function checkLocalUser(users: ILocalUser[], username: string, password: string) {
+  return users.some((user) => user.username === username && user.password === password);
 }
 
 type ATYP = 'ipv4' | 'ipv6' | 'domain';
@@ -35,6 +24,8 @@ export class Address {
   host: string;
   port: number;
   domain: string;
+  // every address to try in order, host is the first
+  hosts: string[];
   headLeft: Buffer;
 
   constructor() {
@@ -44,6 +35,12 @@ export class Address {
   info() {
     return util.format('address<%s>: %s %s:%s', this.id, this.domain, this.host, this.port);
   }
+
+  // host:port asked for, by domain if given
+  target() {
+    const host = this.domain || this.host;
+    return isIP.v6(host) ? `[${host}]:${this.port}` : `${host}:${this.port}`;
+  }
 }
 
 //   +------+----------+----------+
@@ -51,7 +48,22 @@ export class Address {
 //   +------+----------+----------+
 //   |  1   | Variable |    2     |
 //   +------+----------+----------+
-export async function parseAddressFromSocks5Head(head: Buffer, dnslookup = true): Promise<Address> {
+export function encodeSocks5Head(host: string, port: number): Buffer {
+  const portBuf = Buffer.allocUnsafe(2);
+  portBuf.writeUInt16BE(port);
+
+  if (isIP.v4(host)) {
+    return Buffer.concat([Buffer.from([0x01]), Buffer.from(host.split('.').map(Number)), portBuf]);
+  }
+  if (isIP.v6(host)) {
+    return Buffer.concat([Buffer.from([0x04]), Buffer.from(ipv6.toBufArr(host)), portBuf]);
+  }
+  return Buffer.concat([Buffer.from([0x03, Buffer.byteLength(host)]), Buffer.from(host), portBuf]);
+}
+
+// domains are resolved when a resolver is given, acl is checked once they are;
+// a denied address throws ACLDeniedError
+export async function parseAddressFromSocks5Head(head: Buffer, resolver?: Resolver, acl?: OutboundACL): Promise<Address> {
   const address = new Address();
 
   const headLen = head.length;
@@ -93,27 +105,60 @@ export async function parseAddressFromSocks5Head(head: Buffer, dnslookup = true)
     throw new Error(`ATYP ${head[0]} not support`);
   }
 
+  address.type = type;
+  address.host = host;
+  address.port = port;
+  address.domain = domain;
+
+  // domain and port rules first, denied domains are not even resolved
+  const checkACL = () => {
+    const reason = acl?.check(address);
+    if (reason) throw new ACLDeniedError(reason, address);
+  };
+  checkACL();
+
+  let hosts = host ? [host] : [];
   // find ip by dns
-  if (domain && dnslookup) {
+  if (domain && resolver) {
     if (isIP(domain)) {
-      host = domain;
+      hosts = [domain];
     } else {
       const start = Date.now();
       try {
-        host = await lookup(domain);
-        if (!host) throw new Error('lookup no ip');
+        hosts = await resolver.resolve(domain);
+        if (!hosts.length) throw new Error('lookup no ip');
       } finally {
+        dnsLookupSeconds.since({}, start);
         logger.info('lookup %s:%s cost %s ms', address.id, domain, Date.now() - start);
       }
     }
-  }
 
-  const headLeft = remainDataIndex > -1 ? head.slice(remainDataIndex) : null;
+    // addresses the acl denies are skipped, the first reason is reported when none is left
+    let reason: string = null;
+    const allowed = hosts.filter((ip) => {
+      address.host = ip;
+      const denied = acl?.check(address);
+      reason = reason || denied;
+      return !denied;
+    });
+    address.host = hosts[0];
+    if (!allowed.length) throw new ACLDeniedError(reason, address);
+    hosts = allowed;
+  }
 
-  address.type = type;
-  address.host = host;
-  address.port = port;
-  address.domain = domain;
-  address.headLeft = headLeft;
+  address.host = hosts[0] || '';
+  address.hosts = hosts;
+  address.headLeft = remainDataIndex > -1 ? head.slice(remainDataIndex) : null;
   return address;
 }
+
+// listen on port, rejects when it cannot be bound instead of only emitting the error
+export function listen(server: net.Server, port: number, host?: string) {
+  return new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+}
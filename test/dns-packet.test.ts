@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { decodeMessage, encodeQuery, encodeResponse, IAnswer, RCODE_NOERROR, RCODE_NXDOMAIN, TYPE_A, TYPE_AAAA, TYPE_CNAME } from '../src/dns-packet';
+
+// a message header, the sections follow it
+function header(id: number, flags: number, qdcount: number, ancount: number) {
+  const buf = Buffer.alloc(12);
+  buf.writeUInt16BE(id, 0);
+  buf.writeUInt16BE(flags, 2);
+  buf.writeUInt16BE(qdcount, 4);
+  buf.writeUInt16BE(ancount, 6);
+  return buf;
+}
+
+describe('dns-packet', () => {
+  it('decodes the query it encodes', () => {
+    const message = decodeMessage(encodeQuery(0x1234, 'www.example.com', TYPE_AAAA));
+    assert.deepStrictEqual(message, {
+      id: 0x1234,
+      response: false,
+      truncated: false,
+      rcode: RCODE_NOERROR,
+      questions: [{ name: 'www.example.com', type: TYPE_AAAA }],
+      answers: [],
+    });
+  });
+
+  it('ignores the trailing dot of a name', () => {
+    assert.deepStrictEqual(encodeQuery(1, 'example.com.', TYPE_A), encodeQuery(1, 'example.com', TYPE_A));
+  });
+
+  it('decodes the response it encodes', () => {
+    const answers: IAnswer[] = [
+      { name: 'www.example.com', type: TYPE_CNAME, ttl: 300, data: 'example.com' },
+      { name: 'example.com', type: TYPE_A, ttl: 60, data: '93.184.216.34' },
+      { name: 'example.com', type: TYPE_AAAA, ttl: 60, data: '2606:2800:220:1:248:1893:25c8:1946' },
+    ];
+    const message = decodeMessage(encodeResponse(7, { name: 'www.example.com', type: TYPE_A }, RCODE_NOERROR, answers));
+    assert.strictEqual(message.id, 7);
+    assert.strictEqual(message.response, true);
+    assert.strictEqual(message.rcode, RCODE_NOERROR);
+    assert.deepStrictEqual(message.questions, [{ name: 'www.example.com', type: TYPE_A }]);
+    assert.deepStrictEqual(message.answers, answers);
+  });
+
+  it('keeps the rcode of an empty response', () => {
+    const message = decodeMessage(encodeResponse(9, { name: 'nx.example.com', type: TYPE_A }, RCODE_NXDOMAIN, []));
+    assert.strictEqual(message.rcode, RCODE_NXDOMAIN);
+    assert.deepStrictEqual(message.answers, []);
+  });
+
+  it('follows compression pointers in names and cname data', () => {
+    // www.example.com at 12, pointed to by the answer name; the cname is cdn + a pointer to example.com at 16
+    const question = Buffer.concat([Buffer.from('\x03www\x07example\x03com\x00', 'latin1'), Buffer.from([0, TYPE_A, 0, 1])]);
+    const cname = Buffer.concat([Buffer.from([0xc0, 12, 0, TYPE_CNAME, 0, 1, 0, 0, 0, 30, 0, 6]), Buffer.from('\x03cdn', 'latin1'), Buffer.from([0xc0, 16])]);
+    // the a record is owned by the cname target at 45
+    const a = Buffer.from([0xc0, 45, 0, TYPE_A, 0, 1, 0, 0, 0, 30, 0, 4, 10, 0, 0, 1]);
+    const message = decodeMessage(Buffer.concat([header(3, 0x8180, 1, 2), question, cname, a]));
+    assert.deepStrictEqual(message.answers, [
+      { name: 'www.example.com', type: TYPE_CNAME, ttl: 30, data: 'cdn.example.com' },
+      { name: 'cdn.example.com', type: TYPE_A, ttl: 30, data: '10.0.0.1' },
+    ]);
+  });
+
+  it('rejects a pointer loop', () => {
+    const buf = Buffer.concat([header(1, 0, 1, 0), Buffer.from([0xc0, 12, 0, 1, 0, 1])]);
+    assert.throws(() => decodeMessage(buf), /invalid dns name/);
+  });
+
+  it('rejects truncated messages', () => {
+    const response = encodeResponse(1, { name: 'example.com', type: TYPE_A }, RCODE_NOERROR, [{ name: 'example.com', type: TYPE_A, ttl: 1, data: '1.2.3.4' }]);
+    assert.throws(() => decodeMessage(response.slice(0, 8)), /invalid dns message/);
+    assert.throws(() => decodeMessage(response.slice(0, response.length - 2)), /invalid dns message/);
+  });
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import * as dgram from 'dgram';
+import * as net from 'net';
+import { decodeMessage, encodeQuery, encodeResponse, RCODE_NOERROR, TYPE_A } from '../src/dns-packet';
+import { parseUpstream } from '../src/dns-upstream';
+
+const TIMEOUT = 1000;
+
+// the answer to query, 10.0.0.1 for whatever it asks
+function answer(query: Buffer) {
+  const { id, questions } = decodeMessage(query);
+  return encodeResponse(id, questions[0], RCODE_NOERROR, [{ name: questions[0].name, type: TYPE_A, ttl: 60, data: '10.0.0.1' }]);
+}
+
+function withLength(message: Buffer) {
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(message.length);
+  return Buffer.concat([length, message]);
+}
+
+// a dns server over tcp reading length prefixed queries, respond writes the framed response
+function tcpStub(respond: (socket: net.Socket, response: Buffer) => void): Promise<net.Server> {
+  const server = net.createServer((socket) => {
+    let received = Buffer.alloc(0);
+    socket.on('data', (chunk) => {
+      received = Buffer.concat([received, chunk]);
+      if (received.length < 2 || received.length < 2 + received.readUInt16BE(0)) return;
+      respond(socket, withLength(answer(received.slice(2, 2 + received.readUInt16BE(0)))));
+    });
+    socket.on('error', () => socket.destroy());
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('dns-upstream', () => {
+  let server: net.Server;
+
+  afterEach(() => server?.close());
+
+  it('frames queries and responses with their length over tcp', async () => {
+    server = await tcpStub((socket, response) => socket.end(response));
+    const upstream = parseUpstream(`tcp://127.0.0.1:${(server.address() as net.AddressInfo).port}`);
+    const response = decodeMessage(await upstream.exchange(encodeQuery(42, 'example.com', TYPE_A), TIMEOUT));
+    assert.strictEqual(response.id, 42);
+    assert.deepStrictEqual(response.answers, [{ name: 'example.com', type: TYPE_A, ttl: 60, data: '10.0.0.1' }]);
+  });
+
+  it('waits for a response split across writes, even inside the length', async () => {
+    server = await tcpStub((socket, response) => {
+      socket.write(response.slice(0, 1));
+      setTimeout(() => socket.write(response.slice(1, 10)), 20);
+      setTimeout(() => socket.end(response.slice(10)), 40);
+    });
+    const upstream = parseUpstream(`tcp://127.0.0.1:${(server.address() as net.AddressInfo).port}`);
+    const response = decodeMessage(await upstream.exchange(encodeQuery(43, 'example.com', TYPE_A), TIMEOUT));
+    assert.strictEqual(response.id, 43);
+    assert.strictEqual(response.answers[0].data, '10.0.0.1');
+  });
+
+  it('rejects when the tcp connection closes before the whole response', async () => {
+    server = await tcpStub((socket, response) => socket.end(response.slice(0, 6)));
+    const upstream = parseUpstream(`tcp://127.0.0.1:${(server.address() as net.AddressInfo).port}`);
+    await assert.rejects(upstream.exchange(encodeQuery(44, 'example.com', TYPE_A), TIMEOUT), /closed/);
+  });
+
+  it('times out a tcp server that does not answer', async () => {
+    server = await tcpStub(() => null);
+    const upstream = parseUpstream(`tcp://127.0.0.1:${(server.address() as net.AddressInfo).port}`);
+    await assert.rejects(upstream.exchange(encodeQuery(45, 'example.com', TYPE_A), 100), { code: 'ETIMEOUT' });
+  });
+
+  it('asks again over tcp when the udp response is truncated', async () => {
+    server = await tcpStub((socket, response) => socket.end(response));
+    const { port } = server.address() as net.AddressInfo;
+    const udp = dgram.createSocket('udp4');
+    udp.on('message', (query, rinfo) => {
+      // the header and question only, with the TC flag
+      const truncated = answer(query).slice(0, query.length);
+      truncated[2] |= 0x02;
+      truncated.writeUInt16BE(0, 6);
+      udp.send(truncated, rinfo.port, rinfo.address);
+    });
+    await new Promise<void>((resolve) => udp.bind(port, '127.0.0.1', resolve));
+
+    try {
+      const upstream = parseUpstream(`udp://127.0.0.1:${port}`);
+      const response = decodeMessage(await upstream.exchange(encodeQuery(46, 'example.com', TYPE_A), TIMEOUT));
+      assert.strictEqual(response.truncated, false);
+      assert.strictEqual(response.answers[0].data, '10.0.0.1');
+    } finally {
+      udp.close();
+    }
+  });
+});